@@ -41,6 +41,7 @@ heroku config:set NODE_ENV=production --app="$APP_NAME"
 heroku config:set HOST=0.0.0.0 --app="$APP_NAME"
 heroku config:set CLIENT_URL=https://$APP_NAME.herokuapp.com --app="$APP_NAME"
 heroku config:set VITE_GOOGLE_MAPS_API_KEY="$GOOGLE_MAPS_API_KEY" --app="$APP_NAME"
+heroku config:set JWT_SECRET="$([guid]::NewGuid().ToString('N') + [guid]::NewGuid().ToString('N'))" --app="$APP_NAME"
 
 Write-Host "✅ Environment variables set successfully!" -ForegroundColor Green
 
@@ -47,6 +47,7 @@ heroku config:set NODE_ENV=production --app="$APP_NAME"
 heroku config:set HOST=0.0.0.0 --app="$APP_NAME"
 heroku config:set CLIENT_URL=https://$APP_NAME.herokuapp.com --app="$APP_NAME"
 heroku config:set VITE_GOOGLE_MAPS_API_KEY="$GOOGLE_MAPS_API_KEY" --app="$APP_NAME"
+heroku config:set JWT_SECRET="$(openssl rand -hex 32)" --app="$APP_NAME"
 
 echo -e "${GREEN}✅ Environment variables set successfully!${NC}"
 
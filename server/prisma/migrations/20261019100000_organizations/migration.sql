@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "ManagerRole" AS ENUM ('ADMIN', 'MANAGER');
+
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "manager_invites" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "role" "ManagerRole" NOT NULL DEFAULT 'MANAGER',
+    "invitedBy" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "manager_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing managers, routes and sessions move into a default organization
+INSERT INTO "organizations" ("id", "name", "updatedAt") VALUES ('default-organization', 'Default Organization', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "managers" ADD COLUMN     "organizationId" TEXT NOT NULL DEFAULT 'default-organization',
+ADD COLUMN     "role" "ManagerRole" NOT NULL DEFAULT 'MANAGER';
+ALTER TABLE "managers" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- Accounts created before organizations existed administer the default organization
+UPDATE "managers" SET "role" = 'ADMIN';
+
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "organizationId" TEXT NOT NULL DEFAULT 'default-organization';
+ALTER TABLE "routes" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "organizationId" TEXT NOT NULL DEFAULT 'default-organization';
+ALTER TABLE "sessions" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_name_key" ON "organizations"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "manager_invites_tokenHash_key" ON "manager_invites"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "routes_organizationId_idx" ON "routes"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "sessions_organizationId_idx" ON "sessions"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "managers" ADD CONSTRAINT "managers_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "manager_invites" ADD CONSTRAINT "manager_invites_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "routes" ADD CONSTRAINT "routes_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "RouteVisibility" AS ENUM ('PRIVATE', 'SHARED', 'ORGANIZATION');
+
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "visibility" "RouteVisibility" NOT NULL DEFAULT 'ORGANIZATION';
+
+-- CreateTable
+CREATE TABLE "route_shares" (
+    "routeId" TEXT NOT NULL,
+    "managerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "route_shares_pkey" PRIMARY KEY ("routeId","managerId")
+);
+
+-- CreateIndex
+CREATE INDEX "route_shares_managerId_idx" ON "route_shares"("managerId");
+
+-- AddForeignKey
+ALTER TABLE "route_shares" ADD CONSTRAINT "route_shares_routeId_fkey" FOREIGN KEY ("routeId") REFERENCES "routes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "route_shares" ADD CONSTRAINT "route_shares_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "managers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "message_reads" (
+    "sessionId" TEXT NOT NULL,
+    "readerId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_reads_pkey" PRIMARY KEY ("sessionId","readerId","conversationId")
+);
+
+-- CreateIndex
+CREATE INDEX "messages_sessionId_createdAt_idx" ON "messages"("sessionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "message_reads" ADD CONSTRAINT "message_reads_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
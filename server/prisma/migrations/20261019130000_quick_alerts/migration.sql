@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "AlertPriority" AS ENUM ('LOW', 'NORMAL', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "priority" "AlertPriority";
+
+-- CreateTable
+CREATE TABLE "quick_alerts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "priority" "AlertPriority" NOT NULL DEFAULT 'NORMAL',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quick_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "quick_alerts_organizationId_idx" ON "quick_alerts"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "quick_alerts" ADD CONSTRAINT "quick_alerts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
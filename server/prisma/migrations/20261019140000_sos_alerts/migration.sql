@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "sos_alerts" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "participantName" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "locatedAt" TIMESTAMP(3) NOT NULL,
+    "raisedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "escalatedAt" TIMESTAMP(3),
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedBy" TEXT,
+    "acknowledgedName" TEXT,
+
+    CONSTRAINT "sos_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sos_alerts_sessionId_idx" ON "sos_alerts"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "sos_alerts" ADD CONSTRAINT "sos_alerts_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
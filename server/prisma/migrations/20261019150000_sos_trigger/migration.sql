@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "SosTrigger" AS ENUM ('MANUAL', 'CRASH');
+
+-- AlterTable
+ALTER TABLE "sos_alerts" ADD COLUMN     "trigger" "SosTrigger" NOT NULL DEFAULT 'MANUAL';
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "checkpoint_arrivals" (
+    "sessionId" TEXT NOT NULL,
+    "routeId" TEXT NOT NULL,
+    "pointIndex" INTEGER NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "participantName" TEXT NOT NULL,
+    "arrivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "checkpoint_arrivals_pkey" PRIMARY KEY ("sessionId","routeId","pointIndex","participantId")
+);
+
+-- AddForeignKey
+ALTER TABLE "checkpoint_arrivals" ADD CONSTRAINT "checkpoint_arrivals_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "location_samples" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "location_samples_sessionId_participantId_timestamp_idx" ON "location_samples"("sessionId", "participantId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "location_samples_recordedAt_idx" ON "location_samples"("recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "location_samples" ADD CONSTRAINT "location_samples_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "session_participants" (
+    "sessionId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isManager" BOOLEAN NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_participants_pkey" PRIMARY KEY ("sessionId","participantId")
+);
+
+-- CreateTable
+CREATE TABLE "session_route_changes" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "points" JSONB NOT NULL,
+    "path" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_route_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_route_changes_sessionId_changedAt_idx" ON "session_route_changes"("sessionId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "session_participants" ADD CONSTRAINT "session_participants_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_route_changes" ADD CONSTRAINT "session_route_changes_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
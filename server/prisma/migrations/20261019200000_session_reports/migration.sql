@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "session_reports" (
+    "sessionId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_reports_pkey" PRIMARY KEY ("sessionId")
+);
+
+-- AddForeignKey
+ALTER TABLE "session_reports" ADD CONSTRAINT "session_reports_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
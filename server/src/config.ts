@@ -0,0 +1,149 @@
+// Server tunables. Defaults suit a single club ride; every value can be overridden
+// through the environment variable named next to it.
+
+export interface RateLimitRule {
+  points: number // Requests allowed per window
+  windowMs: number
+}
+
+export interface LockoutPolicy {
+  maxFailures: number // Failed attempts allowed within failureWindowMs before locking out
+  failureWindowMs: number
+  baseLockoutMs: number // First lockout; doubles with every further lockout
+  maxLockoutMs: number
+}
+
+export interface PresencePolicy {
+  offlineGraceMs: number // How long a participant may be without a socket before showing offline
+  pruneAfterMs: number // Riders offline and unheard of for this long are removed from the session
+}
+
+export interface SosPolicy {
+  escalateAfterMs: number // Unacknowledged SOS alerts go to every manager of the organization after this
+}
+
+export interface OffRoutePolicy {
+  distanceMeters: number // How far from the route line a rider counts as off-route
+  afterMs: number // How long they must stay that far before managers are told
+}
+
+export interface GroupSpreadPolicy {
+  maxGapMeters: number // Gap between lead and sweep, or sweep and last rider, that alerts managers
+  updateIntervalMs: number // How often managers get the spread while it is within the limit
+}
+
+export interface RiderProgressPolicy {
+  updateIntervalMs: number // How often each rider's progress is sent while they move
+  speedWindowMs: number // Location samples over this period give the rider's current speed
+}
+
+export interface LocationHistoryPolicy {
+  retentionMs: number // Recorded positions are deleted after this
+  flushIntervalMs: number // Positions are written in batches at least this often
+  batchSize: number // ...or as soon as this many are waiting
+}
+
+export interface ServerConfig {
+  // Whether to take client IPs from X-Forwarded-For (needed behind Heroku's router)
+  trustProxy: boolean
+  rateLimits: {
+    joinPerIp: RateLimitRule
+    joinPerSocket: RateLimitRule
+    joinLockout: LockoutPolicy
+    locationUpdate: RateLimitRule // Per participant, across all their sockets
+    messageSend: RateLimitRule // Per participant, across all their sockets
+    apiLocation: RateLimitRule // Per participant, once their token is verified
+    apiLocationPerIp: RateLimitRule // Per IP, for every request
+  }
+  presence: PresencePolicy
+  sos: SosPolicy
+  offRoute: OffRoutePolicy
+  groupSpread: GroupSpreadPolicy
+  riderProgress: RiderProgressPolicy
+  locationHistory: LocationHistoryPolicy
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = process.env[name]
+  if (value === undefined || value === '') {
+    return fallback
+  }
+
+  const parsed = Number.parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.warn(`⚠️ Ignoring invalid ${name}="${value}", using ${fallback}`)
+    return fallback
+  }
+  return parsed
+}
+
+function envBool(name: string, fallback: boolean): boolean {
+  const value = process.env[name]
+  if (value === undefined || value === '') {
+    return fallback
+  }
+  return value === 'true' || value === '1'
+}
+
+// Read after dotenv has run so values from .env are picked up
+export function loadServerConfig(): ServerConfig {
+  return {
+    trustProxy: envBool('TRUST_PROXY', process.env.NODE_ENV === 'production'),
+    rateLimits: {
+      joinPerIp: {
+        points: envInt('RATE_LIMIT_JOIN_PER_IP', 20),
+        windowMs: envInt('RATE_LIMIT_JOIN_WINDOW_MS', 60_000),
+      },
+      joinPerSocket: {
+        points: envInt('RATE_LIMIT_JOIN_PER_SOCKET', 5),
+        windowMs: envInt('RATE_LIMIT_JOIN_WINDOW_MS', 60_000),
+      },
+      joinLockout: {
+        maxFailures: envInt('JOIN_LOCKOUT_MAX_FAILURES', 10),
+        failureWindowMs: envInt('JOIN_LOCKOUT_FAILURE_WINDOW_MS', 15 * 60_000),
+        baseLockoutMs: envInt('JOIN_LOCKOUT_BASE_MS', 60_000),
+        maxLockoutMs: envInt('JOIN_LOCKOUT_MAX_MS', 60 * 60_000),
+      },
+      locationUpdate: {
+        points: envInt('RATE_LIMIT_LOCATION_UPDATES', 10),
+        windowMs: envInt('RATE_LIMIT_LOCATION_WINDOW_MS', 10_000),
+      },
+      messageSend: {
+        points: envInt('RATE_LIMIT_MESSAGES', 20),
+        windowMs: envInt('RATE_LIMIT_MESSAGES_WINDOW_MS', 60_000),
+      },
+      apiLocation: {
+        points: envInt('RATE_LIMIT_API_LOCATION', 60),
+        windowMs: envInt('RATE_LIMIT_API_LOCATION_WINDOW_MS', 60_000),
+      },
+      apiLocationPerIp: {
+        points: envInt('RATE_LIMIT_API_LOCATION_PER_IP', 600),
+        windowMs: envInt('RATE_LIMIT_API_LOCATION_WINDOW_MS', 60_000),
+      },
+    },
+    presence: {
+      offlineGraceMs: envInt('PRESENCE_OFFLINE_GRACE_MS', 30_000),
+      pruneAfterMs: envInt('PRESENCE_PRUNE_AFTER_MS', 60 * 60_000),
+    },
+    sos: {
+      escalateAfterMs: envInt('SOS_ESCALATE_AFTER_MS', 2 * 60_000),
+    },
+    offRoute: {
+      distanceMeters: envInt('OFF_ROUTE_DISTANCE_M', 150),
+      afterMs: envInt('OFF_ROUTE_AFTER_MS', 60_000),
+    },
+    groupSpread: {
+      maxGapMeters: envInt('GROUP_SPREAD_MAX_GAP_M', 1000),
+      updateIntervalMs: envInt('GROUP_SPREAD_INTERVAL_MS', 10_000),
+    },
+    riderProgress: {
+      updateIntervalMs: envInt('RIDER_PROGRESS_INTERVAL_MS', 10_000),
+      speedWindowMs: envInt('RIDER_SPEED_WINDOW_MS', 30_000),
+    },
+    locationHistory: {
+      retentionMs: envInt('LOCATION_HISTORY_RETENTION_DAYS', 30) * 24 * 60 * 60_000,
+      flushIntervalMs: envInt('LOCATION_HISTORY_FLUSH_MS', 5000),
+      batchSize: envInt('LOCATION_HISTORY_BATCH_SIZE', 500),
+    },
+  }
+}
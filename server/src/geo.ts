@@ -0,0 +1,142 @@
+// Geometry on the earth's surface for positions and route lines. Distances are in
+// meters; over the few kilometers between two route vertices a flat projection
+// around the segment is accurate enough.
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+const EARTH_RADIUS_METERS = 6_371_000
+// Meters further from the line a point may be and still win over one a meter further
+// along it from where the position was expected
+const NEAR_OFFSET_WEIGHT = 0.2
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+// Great-circle distance (haversine)
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLng = toRadians(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Google's encoded polyline format, as returned by the Routes API
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = []
+  let index = 0
+  let lat = 0
+  let lng = 0
+
+  const nextValue = (): number | null => {
+    let result = 0
+    let shift = 0
+    let byte: number
+    do {
+      if (index >= encoded.length) return null
+      byte = encoded.charCodeAt(index++) - 63
+      result |= (byte & 0x1f) << shift
+      shift += 5
+    } while (byte >= 0x20)
+    return result & 1 ? ~(result >> 1) : result >> 1
+  }
+
+  while (index < encoded.length) {
+    const dLat = nextValue()
+    const dLng = nextValue()
+    if (dLat === null || dLng === null) break // Truncated input: keep what decoded cleanly
+    lat += dLat
+    lng += dLng
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 })
+  }
+  return points
+}
+
+// Closest point of a line to a position: how far away it is, and how far along the
+// line from its start. With from and to, only the stretch between those distances along
+// the line is searched; null when the line does not reach it. With near, points further
+// along the line from it count as further away, so where a line passes the same place
+// twice, the pass nearest where the position was expected wins.
+export function locateOnPath(
+  position: LatLng,
+  path: LatLng[],
+  options: { from?: number; to?: number; near?: number } = {}
+): { distance: number; along: number } | null {
+  const range = { from: options.from ?? 0, to: options.to ?? Infinity }
+  if (path.length === 0) return null
+  if (path.length === 1) return { distance: distanceMeters(position, path[0]), along: 0 }
+
+  let closest: { distance: number; along: number } | null = null
+  let closestScore = Infinity
+  let travelled = 0
+  for (let i = 0; i < path.length - 1 && travelled <= range.to; i++) {
+    const start = path[i]
+    const end = path[i + 1]
+    const segmentLength = distanceMeters(start, end)
+    if (travelled + segmentLength < range.from) {
+      travelled += segmentLength
+      continue
+    }
+
+    // Project onto a plane tangent at the segment start, in meters
+    const metersPerDegreeLat = (Math.PI * EARTH_RADIUS_METERS) / 180
+    const metersPerDegreeLng = metersPerDegreeLat * Math.cos(toRadians(start.lat))
+    const ex = (end.lng - start.lng) * metersPerDegreeLng
+    const ey = (end.lat - start.lat) * metersPerDegreeLat
+    const px = (position.lng - start.lng) * metersPerDegreeLng
+    const py = (position.lat - start.lat) * metersPerDegreeLat
+
+    // Clamped to the part of the segment inside the range
+    const lengthSquared = ex * ex + ey * ey
+    const minT = segmentLength > 0 ? Math.max(0, (range.from - travelled) / segmentLength) : 0
+    const maxT = segmentLength > 0 ? Math.min(1, (range.to - travelled) / segmentLength) : 0
+    const projected = lengthSquared > 0 ? (px * ex + py * ey) / lengthSquared : 0
+    const t = Math.max(minT, Math.min(maxT, projected))
+    const distance = Math.hypot(px - t * ex, py - t * ey)
+    const along = travelled + t * segmentLength
+    const score =
+      options.near !== undefined
+        ? distance + NEAR_OFFSET_WEIGHT * Math.abs(along - options.near)
+        : distance
+    if (score < closestScore) {
+      closest = { distance, along }
+      closestScore = score
+    }
+    travelled += segmentLength
+  }
+  return closest
+}
+
+// The stretch of a line between two distances along it
+export function slicePath(path: LatLng[], fromAlong: number, toAlong: number): LatLng[] {
+  const pointAt = (start: LatLng, end: LatLng, t: number): LatLng => ({
+    lat: start.lat + (end.lat - start.lat) * t,
+    lng: start.lng + (end.lng - start.lng) * t,
+  })
+
+  const slice: LatLng[] = []
+  let travelled = 0
+  for (let i = 0; i < path.length - 1 && travelled <= toAlong; i++) {
+    const segmentLength = distanceMeters(path[i], path[i + 1])
+    const segmentEnd = travelled + segmentLength
+    if (segmentEnd >= fromAlong && segmentLength > 0) {
+      if (slice.length === 0) {
+        slice.push(
+          pointAt(path[i], path[i + 1], Math.max(0, (fromAlong - travelled) / segmentLength))
+        )
+      }
+      slice.push(
+        segmentEnd <= toAlong
+          ? path[i + 1]
+          : pointAt(path[i], path[i + 1], (toAlong - travelled) / segmentLength)
+      )
+    }
+    travelled = segmentEnd
+  }
+  return slice
+}
@@ -7,14 +7,72 @@ import { config } from 'dotenv'
 import { SessionManager } from './services/SessionManager'
 import { RouteService } from './services/RouteService'
 import { DatabaseService } from './services/DatabaseService'
-import { ServerToClientEvents, ClientToServerEvents, SerializedSession } from './types'
+import { AuthService } from './services/AuthService'
+import { OrganizationService } from './services/OrganizationService'
+import { PresenceTracker } from './services/PresenceTracker'
+import { MessageService } from './services/MessageService'
+import { SosService } from './services/SosService'
+import { RouteMonitor } from './services/RouteMonitor'
+import { CheckpointService } from './services/CheckpointService'
+import { LocationHistoryService } from './services/LocationHistoryService'
+import { ReplayService } from './services/ReplayService'
+import { ReportService } from './services/ReportService'
+import { TrackExportService } from './services/TrackExportService'
+import {
+  createSocketAuthMiddleware,
+  rejectEvent,
+  requireManager,
+  requireParticipant,
+  requireSessionManager,
+} from './middleware/socketAuth'
+import {
+  RateLimits,
+  createApiRateLimit,
+  rejectApiRateLimited,
+  getSocketIp,
+  rejectRateLimited,
+} from './middleware/rateLimit'
+import { createSocketValidationMiddleware, validateBody } from './middleware/validation'
+import {
+  apiLocationSchema,
+  createInviteSchema,
+  quickAlertsSchema,
+  loginSchema,
+  registerSchema,
+} from './validation/schemas'
+import { loadServerConfig } from './config'
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  InterServerEvents,
+  SocketData,
+  SerializedSession,
+  Manager,
+  Message,
+  Session,
+  Participant,
+  PROTOCOL_VERSION,
+  BROADCAST_CONVERSATION,
+} from './types'
 
 // Load environment variables from .env file in project root
 config({ path: path.join(__dirname, '../../.env') })
 
+const serverConfig = loadServerConfig()
+const rateLimits = new RateLimits(serverConfig.rateLimits)
+
 const app = express()
+if (serverConfig.trustProxy) {
+  // Use the client address from X-Forwarded-For for per-IP limits
+  app.set('trust proxy', 1)
+}
 const server = createServer(app)
-const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(server, {
+const io = new SocketIOServer<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>(server, {
   cors: {
     origin:
       process.env.CLIENT_URL ||
@@ -23,6 +81,31 @@ const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(server
   },
 })
 
+// Helper function to extract a bearer token from the Authorization header
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization
+  if (!header || !header.startsWith('Bearer ')) {
+    return null
+  }
+  return header.slice('Bearer '.length).trim() || null
+}
+
+// Socket.IO room shared by all connected managers of an organization
+function organizationRoom(organizationId: string): string {
+  return `org:${organizationId}`
+}
+
+// Helper function to resolve the manager behind a request's bearer token
+async function getRequestManager(req: Request): Promise<Manager | null> {
+  const token = getBearerToken(req)
+  return token ? authService.verifyManagerToken(token) : null
+}
+
+// Socket.IO room shared by all connected sockets of one manager
+function managerRoom(managerId: string): string {
+  return `manager:${managerId}`
+}
+
 // Helper function to serialize session
 function serializeSession(session: any): SerializedSession {
   return {
@@ -62,8 +145,129 @@ if (process.env.NODE_ENV === 'production') {
 
 // Initialize services
 const databaseService = DatabaseService.getInstance()
-const sessionManager = new SessionManager()
+const authService = new AuthService()
+// Every ended session gets a post-ride report
+const sessionManager = new SessionManager(authService, (sessionId) => {
+  reportService
+    .generate(sessionId)
+    .then(() => console.log(`📋 Report generated for session ${sessionId}`))
+    .catch((error) =>
+      console.error(`❌ Failed to generate report for session ${sessionId}:`, error)
+    )
+})
 const routeService = new RouteService()
+const organizationService = new OrganizationService(authService)
+const messageService = new MessageService()
+
+// Participants show as offline once they have had no socket for the grace period
+const presence = new PresenceTracker(
+  serverConfig.presence.offlineGraceMs,
+  (sessionId, participantId) => {
+    const participant = sessionManager.setParticipantOnline(sessionId, participantId, false)
+    if (participant) {
+      io.to(sessionId).emit('session:participant-update', { sessionId, participant })
+      console.log(`📴 ${participant.name} went offline in session ${sessionId}`)
+    }
+  }
+)
+
+// SOS alerts nobody acknowledged in time go to every manager of the organization
+const sosService = new SosService(serverConfig.sos.escalateAfterMs, (sos, organizationId) => {
+  io.to(organizationRoom(organizationId)).emit('sos:escalated', sos)
+  console.log(`🆘 SOS from ${sos.participantName} in session ${sos.sessionId} escalated`)
+})
+
+// Managers running a session: its owner and the co-managers who joined it
+function sessionManagerIds(session: Session): string[] {
+  const coManagers = Array.from(session.participants.values())
+    .filter((participant) => participant.isManager)
+    .map((participant) => participant.id)
+  return Array.from(new Set([session.managerId, ...coManagers]))
+}
+
+const routeMonitor = new RouteMonitor(
+  serverConfig.offRoute,
+  serverConfig.groupSpread,
+  serverConfig.riderProgress
+)
+const checkpointService = new CheckpointService()
+const locationHistory = new LocationHistoryService(serverConfig.locationHistory)
+const replayService = new ReplayService(messageService, locationHistory)
+const reportService = new ReportService(locationHistory)
+const trackExportService = new TrackExportService(locationHistory)
+
+// Tell the session's managers how spread out the group is, when an update is due
+function sendGroupSpread(session: Session, force = false): void {
+  const spread = routeMonitor.measureSpread(
+    session.id,
+    session.route,
+    Array.from(session.participants.values()),
+    force
+  )
+  if (spread) {
+    io.to(sessionManagerIds(session).map(managerRoom)).emit('group:spread', spread)
+  }
+}
+
+// Compare a rider's new position with the session's route, and tell the session's
+// managers and the rider themselves how far along it they are and when they leave it
+// or return
+function trackRoutePosition(sessionId: string, participantId: string): void {
+  const session = sessionManager.getSession(sessionId)
+  const participant = session?.participants.get(participantId)
+  if (!session || !participant) return
+
+  const change = routeMonitor.check(session.id, session.route, participant)
+  const progress = routeMonitor.measureProgress(session.id, session.route, participant)
+  sendGroupSpread(session)
+  recordCheckpointArrivals(session, participant).catch((error) =>
+    console.error('Error recording checkpoint arrivals:', error)
+  )
+
+  const audience = [
+    ...sessionManagerIds(session).map(managerRoom),
+    ...presence.getSocketIds(session.id, participant.id),
+  ]
+  if (progress) {
+    io.to(audience).emit('rider:progress', {
+      sessionId: session.id,
+      participantId: participant.id,
+      progress,
+    })
+  }
+  if (change === 'off-route' && participant.offRoute) {
+    io.to(audience).emit('rider:off-route', {
+      sessionId: session.id,
+      participantId: participant.id,
+      offRoute: participant.offRoute,
+    })
+    console.log(
+      `🧭 ${participant.name} is off-route in session ${session.id} (${participant.offRoute.distance} m)`
+    )
+  } else if (change === 'back-on-route') {
+    io.to(audience).emit('rider:back-on-route', {
+      sessionId: session.id,
+      participantId: participant.id,
+    })
+    console.log(`🧭 ${participant.name} is back on route in session ${session.id}`)
+  }
+}
+
+// Check the rider in at any checkpoint or regroup point they have reached, and tell
+// the session's managers and the rider themselves
+async function recordCheckpointArrivals(session: Session, participant: Participant): Promise<void> {
+  const arrivals = await checkpointService.recordArrivals(session.id, session.route, participant)
+  const audience = [
+    ...sessionManagerIds(session).map(managerRoom),
+    ...presence.getSocketIds(session.id, participant.id),
+  ]
+  for (const arrival of arrivals) {
+    io.to(audience).emit('checkpoint:arrived', arrival)
+    console.log(
+      `🏁 ${participant.name} reached point ${arrival.pointIndex} in session ${session.id}`
+    )
+  }
+}
 
 // Health check endpoint
 app.get('/health', async (req: Request, res: Response) => {
@@ -96,74 +300,428 @@ app.get('/health', async (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     activeSessions: sessionManager.getAllActiveSessions().length,
     environment: process.env.NODE_ENV || 'development',
+    protocolVersion: PROTOCOL_VERSION,
   })
 })
 
-// API endpoint for background sync location updates
-app.post('/api/location', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { sessionId, participantId, location, timestamp } = req.body
+// Manager authentication endpoints
+app.post(
+  '/api/auth/login',
+  validateBody(loginSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { username, password } = req.body
+
+      const result = await authService.login(username, password)
 
-    // Validate required fields
-    if (!sessionId || !participantId || !location || !location.lat || !location.lng) {
-      res.status(400).json({
+      if (result.success) {
+        res.json({ success: true, token: result.token, manager: result.manager })
+        console.log(`🔑 Manager ${result.manager?.username} logged in`)
+      } else {
+        res.status(401).json({ success: false, error: result.error })
+      }
+    } catch (error) {
+      console.error('❌ Login error:', error)
+      res.status(500).json({
         success: false,
-        error: 'Missing required fields: sessionId, participantId, location.lat, location.lng',
+        error: 'Internal server error',
       })
+    }
+  }
+)
+
+app.post('/api/auth/logout', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manager = await getRequestManager(req)
+
+    if (!manager) {
+      res.status(401).json({ success: false, error: 'Invalid or expired token' })
       return
     }
 
-    console.log('📍 API location update:', {
-      sessionId,
-      participantId,
-      location,
-      timestamp,
+    await authService.logout(manager.id)
+    res.json({ success: true })
+    console.log(`🔒 Manager ${manager.username} logged out`)
+  } catch (error) {
+    console.error('❌ Logout error:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
     })
+  }
+})
 
-    // Update location via SessionManager
-    const result = await sessionManager.updateParticipantLocation(
-      participantId,
-      location.lat,
-      location.lng
-    )
+app.get('/api/auth/me', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manager = await getRequestManager(req)
 
-    if (result.success && result.sessionId) {
-      // Broadcast location update to all participants in the session via WebSocket
-      io.to(result.sessionId).emit('location:updated', {
-        sessionId: result.sessionId,
-        participantId,
-        location,
-      })
+    if (!manager) {
+      res.status(401).json({ success: false, error: 'Invalid or expired token' })
+      return
+    }
+
+    res.json({ success: true, manager })
+  } catch (error) {
+    console.error('❌ Manager lookup error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
 
-      res.json({
-        success: true,
-        message: 'Location updated successfully',
+// Accept an invite: creates the manager in the inviting organization and logs them in
+app.post(
+  '/api/auth/register',
+  validateBody(registerSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { inviteToken, username, name, password } = req.body
+
+      const result = await organizationService.acceptInvite(inviteToken, username, name, password)
+      if (!result.success) {
+        res.status(400).json({ success: false, error: result.error })
+        return
+      }
+
+      const login = await authService.login(username, password)
+      res.json({ success: login.success, token: login.token, manager: login.manager })
+      console.log(`🎟️ Manager ${result.manager?.username} joined organization via invite`)
+    } catch (error) {
+      console.error('❌ Registration error:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
       })
+    }
+  }
+)
 
-      console.log('✅ API location update broadcasted to session', result.sessionId)
+// Organization endpoints - always scoped to the caller's own organization
+app.get('/api/organization', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manager = await getRequestManager(req)
+    if (!manager) {
+      res.status(401).json({ success: false, error: 'Invalid or expired token' })
       return
-    } else {
-      res.status(404).json({
+    }
+
+    const organization = await organizationService.getOrganization(manager.organizationId)
+    const managers = await authService.listManagers(manager.organizationId)
+    res.json({ success: true, organization, managers })
+  } catch (error) {
+    console.error('❌ Organization lookup error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+app.get('/api/organization/invites', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manager = await getRequestManager(req)
+    if (!manager) {
+      res.status(401).json({ success: false, error: 'Invalid or expired token' })
+      return
+    }
+    if (manager.role !== 'admin') {
+      res.status(403).json({ success: false, error: 'Only organization admins can manage invites' })
+      return
+    }
+
+    const invites = await organizationService.listPendingInvites(manager.organizationId)
+    res.json({ success: true, invites })
+  } catch (error) {
+    console.error('❌ Invite listing error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+app.post(
+  '/api/organization/invites',
+  validateBody(createInviteSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const manager = await getRequestManager(req)
+      if (!manager) {
+        res.status(401).json({ success: false, error: 'Invalid or expired token' })
+        return
+      }
+      if (manager.role !== 'admin') {
+        res
+          .status(403)
+          .json({ success: false, error: 'Only organization admins can invite managers' })
+        return
+      }
+
+      const { role } = req.body
+      const { invite, token } = await organizationService.createInvite(
+        manager.organizationId,
+        manager.id,
+        role
+      )
+
+      res.json({ success: true, invite, token })
+      console.log(`✉️ Manager ${manager.username} created a ${role} invite`)
+    } catch (error) {
+      console.error('❌ Invite creation error:', error)
+      res.status(500).json({
         success: false,
-        error: 'Participant or session not found',
+        error: 'Internal server error',
       })
+    }
+  }
+)
+
+app.delete(
+  '/api/organization/invites/:inviteId',
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const manager = await getRequestManager(req)
+      if (!manager) {
+        res.status(401).json({ success: false, error: 'Invalid or expired token' })
+        return
+      }
+      if (manager.role !== 'admin') {
+        res
+          .status(403)
+          .json({ success: false, error: 'Only organization admins can manage invites' })
+        return
+      }
+
+      const revoked = await organizationService.revokeInvite(
+        manager.organizationId,
+        req.params.inviteId
+      )
+      if (revoked) {
+        res.json({ success: true })
+      } else {
+        res.status(404).json({ success: false, error: 'Invite not found' })
+      }
+    } catch (error) {
+      console.error('❌ Invite revocation error:', error)
+      res.status(500).json({ success: false, error: 'Internal server error' })
+    }
+  }
+)
+
+app.get('/api/organization/alerts', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manager = await getRequestManager(req)
+    if (!manager) {
+      res.status(401).json({ success: false, error: 'Invalid or expired token' })
       return
     }
+
+    const alerts = await organizationService.listQuickAlerts(manager.organizationId)
+    res.json({ success: true, alerts })
   } catch (error) {
-    console.error('❌ API location update error:', error)
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    })
+    console.error('❌ Quick alert listing error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+app.put(
+  '/api/organization/alerts',
+  validateBody(quickAlertsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const manager = await getRequestManager(req)
+      if (!manager) {
+        res.status(401).json({ success: false, error: 'Invalid or expired token' })
+        return
+      }
+      if (manager.role !== 'admin') {
+        res
+          .status(403)
+          .json({ success: false, error: 'Only organization admins can change quick alerts' })
+        return
+      }
+
+      const alerts = await organizationService.saveQuickAlerts(
+        manager.organizationId,
+        req.body.alerts
+      )
+      res.json({ success: true, alerts })
+      console.log(`🚨 Manager ${manager.username} updated the quick alerts`)
+    } catch (error) {
+      console.error('❌ Quick alert update error:', error)
+      res.status(500).json({ success: false, error: 'Internal server error' })
+    }
+  }
+)
+
+// Post-ride report of an ended session: JSON by default, or a CSV or printable HTML
+// download. HTML times are shown in the timeZone query parameter.
+app.get('/api/sessions/:sessionId/report', async (req: Request, res: Response): Promise<void> => {
+  const format = req.query.format ?? 'json'
+  if (format !== 'json' && format !== 'csv' && format !== 'html') {
+    res.status(400).json({ success: false, error: 'Format must be json, csv or html' })
+    return
+  }
+
+  try {
+    const manager = await getRequestManager(req)
+    if (!manager) {
+      res.status(401).json({ success: false, error: 'Invalid or expired token' })
+      return
+    }
+
+    const result = await reportService.getReport(req.params.sessionId, manager.organizationId)
+    if (!result.success || !result.report) {
+      res
+        .status(result.code === 'CONFLICT' ? 409 : 404)
+        .json({ success: false, error: result.error || 'Session not found' })
+      return
+    }
+
+    const report = result.report
+    const date = new Date(report.startedAt).toISOString().slice(0, 10)
+    const filename = `ride-report-${date}-${report.pin}`
+    if (format === 'csv') {
+      res.attachment(`${filename}.csv`).send(reportService.toCsv(report))
+    } else if (format === 'html') {
+      const timeZone = typeof req.query.timeZone === 'string' ? req.query.timeZone : undefined
+      res.attachment(`${filename}.html`).send(reportService.toHtml(report, timeZone))
+    } else {
+      res.json({ success: true, report })
+    }
+  } catch (error) {
+    console.error('❌ Session report error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+})
+
+// Recorded tracks as a GPX, KML or GeoJSON download. Managers of the session's
+// organization export one participant, or everyone without participantId; riders
+// authenticate with their participant token and only ever get their own track.
+app.get('/api/sessions/:sessionId/tracks', async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params
+  const format = req.query.format
+  if (format !== 'gpx' && format !== 'kml' && format !== 'geojson') {
+    res.status(400).json({ success: false, error: 'Format must be gpx, kml or geojson' })
     return
   }
+  let participantId =
+    typeof req.query.participantId === 'string' ? req.query.participantId : undefined
+
+  try {
+    const manager = await getRequestManager(req)
+    let organizationId: string | undefined
+    if (manager) {
+      organizationId = manager.organizationId
+    } else {
+      // Only the signature is checked, so riders can still export once the session ended
+      const token = getBearerToken(req)
+      const claims = token ? authService.decodeParticipantToken(token) : null
+      if (!claims || claims.sessionId !== sessionId) {
+        res.status(401).json({ success: false, error: 'Invalid or expired token' })
+        return
+      }
+      if (participantId && participantId !== claims.participantId) {
+        res.status(403).json({ success: false, error: 'Riders can only export their own track' })
+        return
+      }
+      participantId = claims.participantId
+    }
+
+    const result = await trackExportService.exportTracks(sessionId, format, {
+      participantId,
+      organizationId,
+    })
+    if (!result.success || !result.file) {
+      res.status(404).json({ success: false, error: result.error || 'Session not found' })
+      return
+    }
+
+    res.attachment(result.file.filename).type(result.file.contentType).send(result.file.content)
+  } catch (error) {
+    console.error('❌ Track export error:', error)
+    res.status(500).json({ success: false, error: 'Internal server error' })
+  }
 })
 
+// API endpoint for background sync location updates
+app.post(
+  '/api/location',
+  createApiRateLimit(rateLimits.apiLocationPerIp),
+  validateBody(apiLocationSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, location, timestamp } = req.body
+
+      // The participant is identified by their signed token, never by the request body
+      const token = getBearerToken(req)
+      const authenticated = token ? sessionManager.authenticateParticipant(token) : null
+      if (!authenticated || authenticated.session.id !== sessionId) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid or expired participant token',
+        })
+        return
+      }
+
+      const participantId = authenticated.participant.id
+
+      // Counted per verified participant, so a new token per request gains nothing
+      const limit = rateLimits.apiLocation.consume(`${sessionId}:${participantId}`)
+      if (!limit.allowed) {
+        rejectApiRateLimited(res, limit.retryAfterMs)
+        return
+      }
+
+      console.log('📍 API location update:', {
+        sessionId,
+        participantId,
+        location,
+        timestamp,
+      })
+
+      // Update location via SessionManager
+      const result = await sessionManager.updateParticipantLocation(
+        authenticated.session.id,
+        participantId,
+        location.lat,
+        location.lng
+      )
+
+      if (result.success && result.sessionId) {
+        // Broadcast location update to all participants in the session via WebSocket
+        io.to(result.sessionId).emit('location:updated', {
+          sessionId: result.sessionId,
+          participantId,
+          location,
+        })
+        locationHistory.record(result.sessionId, participantId, location)
+        trackRoutePosition(result.sessionId, participantId)
+
+        res.json({
+          success: true,
+          message: 'Location updated successfully',
+        })
+
+        console.log('✅ API location update broadcasted to session', result.sessionId)
+        return
+      } else {
+        res.status(404).json({
+          success: false,
+          error: 'Participant or session not found',
+        })
+        return
+      }
+    } catch (error) {
+      console.error('❌ API location update error:', error)
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      })
+      return
+    }
+  }
+)
+
 // Initialize database and services
 async function initializeServer() {
   try {
     await databaseService.connect()
     await sessionManager.initialize()
+    await sosService.restoreEscalations()
+    locationHistory.start()
     console.log('🚀 Server services initialized successfully')
   } catch (error) {
     console.error('❌ Failed to initialize server services:', error)
@@ -171,15 +729,73 @@ async function initializeServer() {
   }
 }
 
+// Socket.io authentication
+io.use(createSocketAuthMiddleware(authService))
+
 // Socket.io connection handling
 io.on('connection', (socket) => {
-  console.log(`Client connected: ${socket.id}`)
+  console.log(
+    `Client connected: ${socket.id}${
+      socket.data.managerId ? ` (manager ${socket.data.managerId})` : ''
+    }`
+  )
+
+  // Managers receive organization-wide and personal notifications such as new routes
+  if (socket.data.managerId && socket.data.organizationId) {
+    socket.join([organizationRoom(socket.data.organizationId), managerRoom(socket.data.managerId)])
+  }
+
+  // Every event payload is validated before it reaches the handlers below
+  socket.use(createSocketValidationMiddleware(socket))
+
+  const clientIp = getSocketIp(socket, serverConfig.trustProxy)
+
+  // Wrong PINs count towards the IP's lockout
+  function recordFailedJoin() {
+    const lockout = rateLimits.joinLockout.recordFailure(clientIp)
+    if (!lockout.allowed) {
+      console.warn(
+        `🔒 Locked out ${clientIp} from joining sessions for ${Math.ceil(
+          lockout.retryAfterMs / 1000
+        )}s after repeated wrong PINs`
+      )
+    }
+  }
+
+  // Bind the socket to a participant identity and the session room
+  function bindParticipant(sessionId: string, participantId: string) {
+    if (socket.data.sessionId && socket.data.sessionId !== sessionId) {
+      socket.leave(socket.data.sessionId)
+    }
+    socket.data.sessionId = sessionId
+    socket.data.participantId = participantId
+    socket.join(sessionId)
+    presence.attach(socket.id, sessionId, participantId)
+
+    // Tell the session when someone who had gone offline is back
+    const participant = sessionManager.setParticipantOnline(sessionId, participantId, true)
+    if (participant) {
+      socket.to(sessionId).emit('session:participant-update', { sessionId, participant })
+    }
+  }
+
+  function unbindParticipant() {
+    if (socket.data.sessionId) {
+      socket.leave(socket.data.sessionId)
+    }
+    presence.detach(socket.id)
+    socket.data.sessionId = undefined
+    socket.data.participantId = undefined
+  }
 
   // Session management
   socket.on('session:create', async (data, callback) => {
+    const manager = requireManager(socket, 'session:create', callback)
+    if (!manager) return
+
     try {
       console.log('Creating session with data:', data)
-      const session = await sessionManager.createSession(data.managerName, data.routeId)
+      const session = await sessionManager.createSession(manager, data.routeId)
       console.log('Session created:', {
         id: session.id,
         pin: session.pin,
@@ -194,31 +810,38 @@ io.on('connection', (socket) => {
         })
       }
 
-      // Join the socket to the session room
-      socket.join(session.id)
+      // Bind the manager to the session and join its room
+      bindParticipant(session.id, manager.managerId)
 
       // Serialize the session for transmission
       const serializedSession = serializeSession(session)
       console.log('Serialized session route:', !!serializedSession.route)
 
       callback({ success: true, session: serializedSession })
-      console.log(`Manager ${data.managerName} created session ${session.pin}`)
+      console.log(`Manager ${manager.managerName} created session ${session.pin}`)
     } catch (error) {
       console.error('Error creating session:', error)
       callback({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to create session',
+        code: 'INTERNAL_ERROR',
       })
     }
   })
 
   socket.on('session:join', async (data, callback) => {
+    const limit = rateLimits.checkJoin(clientIp, socket.id)
+    if (!limit.allowed) {
+      rejectRateLimited(socket, 'session:join', limit.retryAfterMs, callback)
+      return
+    }
+
     try {
       const result = await sessionManager.joinSession(data.pin, data.participantName)
 
       if (result.success && result.session && result.participantId) {
-        // Join the socket to the session room
-        socket.join(result.session.id)
+        // Bind the participant to the socket and join the session room
+        bindParticipant(result.session.id, result.participantId)
 
         // Serialize the session for transmission
         const serializedSession = serializeSession(result.session)
@@ -233,25 +856,41 @@ io.on('connection', (socket) => {
           success: true,
           session: serializedSession,
           participantId: result.participantId,
+          participantToken: result.participantToken,
         })
 
         console.log(`${data.participantName} joined session ${data.pin}`)
       } else {
-        callback({ success: false, error: result.error })
+        recordFailedJoin()
+        callback({ success: false, error: result.error, code: 'NOT_FOUND' })
       }
     } catch (error) {
       console.error('Error joining session:', error)
-      callback({ success: false, error: 'Failed to join session' })
+      callback({ success: false, error: 'Failed to join session', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('session:join-as-manager', async (data, callback) => {
+    const manager = requireManager(socket, 'session:join-as-manager', callback)
+    if (!manager) return
+
+    const limit = rateLimits.checkJoin(clientIp, socket.id)
+    if (!limit.allowed) {
+      rejectRateLimited(socket, 'session:join-as-manager', limit.retryAfterMs, callback)
+      return
+    }
+
     try {
-      const result = await sessionManager.joinAsManager(data.pin, data.managerName, data.managerId)
+      const result = await sessionManager.joinAsManager(
+        data.pin,
+        manager.managerName,
+        manager.managerId,
+        manager.organizationId
+      )
 
       if (result.success && result.session && result.participantId) {
-        // Join the socket to the session room
-        socket.join(result.session.id)
+        // Bind the manager to the session and join its room
+        bindParticipant(result.session.id, result.participantId)
 
         // Serialize the session for transmission
         const serializedSession = serializeSession(result.session)
@@ -268,28 +907,40 @@ io.on('connection', (socket) => {
           participantId: result.participantId,
         })
 
-        console.log(`Manager ${data.managerName} joined session ${data.pin}`)
+        console.log(`Manager ${manager.managerName} joined session ${data.pin}`)
       } else {
-        callback({ success: false, error: result.error })
+        recordFailedJoin()
+        callback({ success: false, error: result.error, code: 'NOT_FOUND' })
       }
     } catch (error) {
       console.error('Error joining session as manager:', error)
-      callback({ success: false, error: 'Failed to join session as manager' })
+      callback({
+        success: false,
+        error: 'Failed to join session as manager',
+        code: 'INTERNAL_ERROR',
+      })
     }
   })
 
   socket.on('session:leave', async (data) => {
+    const participant = requireParticipant(socket, 'session:leave', data.sessionId)
+    if (!participant) return
+
     try {
-      const result = await sessionManager.leaveSession(data.participantId)
+      const result = await sessionManager.leaveSession(
+        participant.sessionId,
+        participant.participantId
+      )
 
       if (result.success && result.sessionId) {
         // Leave the socket room
-        socket.leave(result.sessionId)
+        unbindParticipant()
+        routeMonitor.forget(result.sessionId, participant.participantId)
 
         // Notify other participants
         socket.to(result.sessionId).emit('session:left', {
           sessionId: result.sessionId,
-          participantId: data.participantId,
+          participantId: participant.participantId,
         })
 
         // If manager left, notify all participants that session ended
@@ -299,7 +950,7 @@ io.on('connection', (socket) => {
           })
         }
 
-        console.log(`Participant ${data.participantId} left session ${result.sessionId}`)
+        console.log(`Participant ${participant.participantId} left session ${result.sessionId}`)
       }
     } catch (error) {
       console.error('Error leaving session:', error)
@@ -307,32 +958,90 @@ io.on('connection', (socket) => {
   })
 
   socket.on('session:end', async (data) => {
+    const session = sessionManager.getSession(data.sessionId)
+    if (!requireSessionManager(socket, 'session:end', session)) return
+
     try {
-      const session = sessionManager.getSession(data.sessionId)
-      if (session && session.managerId === data.managerId) {
-        // Notify all participants
-        socket.to(data.sessionId).emit('session:ended', {
-          sessionId: data.sessionId,
-        })
+      // Notify all participants
+      socket.to(data.sessionId).emit('session:ended', {
+        sessionId: data.sessionId,
+      })
 
-        // End the session
-        await sessionManager.endSession(data.sessionId)
+      // End the session
+      await sessionManager.endSession(data.sessionId)
+      routeMonitor.forget(data.sessionId)
+      checkpointService.forget(data.sessionId)
+      unbindParticipant()
 
-        console.log(`Session ${data.sessionId} ended by manager`)
-      }
+      console.log(`Session ${data.sessionId} ended by manager`)
     } catch (error) {
       console.error('Error ending session:', error)
     }
   })
 
   // Session recovery handlers
+  // Active sessions the manager owns or co-manages, for switching between them
+  socket.on('session:list', async (_data, callback) => {
+    const manager = requireManager(socket, 'session:list', callback)
+    if (!manager) return
+
+    try {
+      const sessions = await sessionManager.getManagerSessions(manager.managerId)
+      callback({ success: true, sessions: sessions.map((session) => serializeSession(session)) })
+    } catch (error) {
+      console.error('Error listing sessions:', error)
+      callback({ success: false, error: 'Failed to list sessions', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('session:list-ended', async (_data, callback) => {
+    const manager = requireManager(socket, 'session:list-ended', callback)
+    if (!manager) return
+
+    try {
+      const sessions = await replayService.listEndedSessions(manager.organizationId)
+      callback({ success: true, sessions })
+    } catch (error) {
+      console.error('Error listing ended sessions:', error)
+      callback({ success: false, error: 'Failed to list ended sessions', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('session:replay', async (data, callback) => {
+    const manager = requireManager(socket, 'session:replay', callback)
+    if (!manager) return
+
+    try {
+      const result = await replayService.getReplay(data.sessionId, manager)
+      if (result.success) {
+        callback({ success: true, replay: result.replay })
+      } else {
+        callback({
+          success: false,
+          error: result.error || 'Session not found',
+          code: result.code || 'NOT_FOUND',
+        })
+      }
+    } catch (error) {
+      console.error('Error loading session replay:', error)
+      callback({ success: false, error: 'Failed to load replay', code: 'INTERNAL_ERROR' })
+    }
+  })
+
   socket.on('session:validate-manager', async (data, callback) => {
+    const manager = requireManager(socket, 'session:validate-manager', callback)
+    if (!manager) return
+
     try {
-      const result = await sessionManager.validateManager(data.sessionId, data.managerId)
+      const result = await sessionManager.validateManager(
+        data.sessionId,
+        manager.managerId,
+        manager.organizationId
+      )
 
       if (result.success && result.session) {
-        // Rejoin the socket to the session room
-        socket.join(result.session.id)
+        // Rebind the manager to the session room
+        bindParticipant(result.session.id, manager.managerId)
 
         // Serialize the session for transmission
         const serializedSession = serializeSession(result.session)
@@ -340,55 +1049,67 @@ io.on('connection', (socket) => {
         callback({ success: true, session: serializedSession })
         console.log(`Manager reconnected to session ${result.session.pin}`)
       } else {
-        callback({ success: false, error: result.error || 'Session not found or access denied' })
+        callback({
+          success: false,
+          error: result.error || 'Session not found or access denied',
+          code: result.code || 'NOT_FOUND',
+        })
       }
     } catch (error) {
       console.error('Error validating manager session:', error)
-      callback({ success: false, error: 'Failed to validate session' })
+      callback({ success: false, error: 'Failed to validate session', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('session:rejoin', async (data, callback) => {
     try {
-      const session = sessionManager.getParticipantSession(data.participantId)
-
-      if (session && session.isActive && session.id === data.sessionId) {
-        // Mark participant as online
-        const participant = session.participants.get(data.participantId)
-        if (participant) {
-          participant.isOnline = true
+      const authenticated = sessionManager.authenticateParticipant(data.participantToken)
+
+      if (!authenticated || authenticated.session.id !== data.sessionId) {
+        rejectEvent(
+          socket,
+          'session:rejoin',
+          'UNAUTHENTICATED',
+          'Invalid or expired participant token',
+          callback
+        )
+        return
+      }
 
-          // Rejoin the socket to the session room
-          socket.join(session.id)
+      const { session, participant } = authenticated
 
-          // Serialize the session for transmission
-          const serializedSession = serializeSession(session)
+      // Rebind the participant to the socket and the session room, which also tells
+      // the others that they are back online
+      bindParticipant(session.id, participant.id)
 
-          // Notify other participants that this participant is back online
-          socket.to(session.id).emit('session:joined', {
-            sessionId: session.id,
-            participant: participant,
-          })
+      // Serialize the session for transmission
+      const serializedSession = serializeSession(session)
 
-          callback({ success: true, session: serializedSession })
-          console.log(`Participant ${participant.name} reconnected to session ${session.pin}`)
-        } else {
-          callback({ success: false, error: 'Participant not found in session' })
-        }
-      } else {
-        callback({ success: false, error: 'Session not found or access denied' })
-      }
+      callback({ success: true, session: serializedSession })
+      console.log(`Participant ${participant.name} reconnected to session ${session.pin}`)
     } catch (error) {
       console.error('Error rejoining session:', error)
-      callback({ success: false, error: 'Failed to rejoin session' })
+      callback({ success: false, error: 'Failed to rejoin session', code: 'INTERNAL_ERROR' })
     }
   })
 
   // Location updates
   socket.on('location:update', async (data) => {
+    const participant = requireParticipant(socket, 'location:update', data.sessionId)
+    if (!participant) return
+
+    const limit = rateLimits.locationUpdate.consume(
+      `${participant.sessionId}:${participant.participantId}`
+    )
+    if (!limit.allowed) {
+      rejectRateLimited(socket, 'location:update', limit.retryAfterMs)
+      return
+    }
+
     try {
       const result = await sessionManager.updateParticipantLocation(
-        data.participantId,
+        participant.sessionId,
+        participant.participantId,
         data.location.lat,
         data.location.lng
       )
@@ -397,49 +1118,85 @@ io.on('connection', (socket) => {
         // Broadcast location update to all participants in the session (including sender)
         io.to(result.sessionId).emit('location:updated', {
           sessionId: result.sessionId,
-          participantId: data.participantId,
+          participantId: participant.participantId,
           location: data.location,
         })
+        locationHistory.record(result.sessionId, participant.participantId, data.location)
+        trackRoutePosition(result.sessionId, participant.participantId)
       }
     } catch (error) {
       console.error('Error updating location:', error)
     }
   })
 
+  socket.on('location:history', async (data, callback) => {
+    const participant = requireParticipant(socket, 'location:history', data.sessionId, callback)
+    if (!participant) return
+
+    try {
+      const session = sessionManager.getSession(participant.sessionId)
+      if (!session) {
+        rejectEvent(socket, 'location:history', 'NOT_FOUND', 'Session not found', callback)
+        return
+      }
+      // The owner and co-managers of the session see everyone's positions
+      const isManager = !!session.participants.get(participant.participantId)?.isManager
+      if (!isManager && data.participantId && data.participantId !== participant.participantId) {
+        rejectEvent(
+          socket,
+          'location:history',
+          'FORBIDDEN',
+          "Only managers can see other participants' positions",
+          callback
+        )
+        return
+      }
+
+      const tracks = await locationHistory.getTracks(session.id, {
+        participantId: isManager ? data.participantId : participant.participantId,
+        since: data.since,
+        until: data.until,
+      })
+      callback({ success: true, tracks })
+    } catch (error) {
+      console.error('Error loading location history:', error)
+      callback({ success: false, error: 'Failed to load location history', code: 'INTERNAL_ERROR' })
+    }
+  })
+
   // Route management
   socket.on('route:create', async (data, callback) => {
+    const manager = requireManager(socket, 'route:create', callback)
+    if (!manager) return
+
     try {
       console.log('Route creation request:', {
         name: data.name,
-        pointsCount: data.points?.length,
-        createdBy: data.createdBy,
+        pointsCount: data.points.length,
+        createdBy: manager.managerId,
         hasDescription: !!data.description,
         isTemplate: data.isTemplate,
       })
 
-      // Validate required fields
-      if (!data.name || !data.points || !data.createdBy) {
-        const error = 'Missing required fields: name, points, or createdBy'
-        console.error('Route creation validation failed:', error)
-        callback({ success: false, error })
-        return
-      }
-
-      const route = await routeService.createRoute(
-        data.name,
-        data.points,
-        data.createdBy,
-        data.description,
-        data.isTemplate,
-        data.distance
-      )
+      const route = await routeService.createRoute(data.name, data.points, manager, {
+        description: data.description,
+        isTemplate: data.isTemplate,
+        distance: data.distance,
+        path: data.path,
+        visibility: data.visibility,
+        sharedWith: data.sharedWith,
+      })
 
       callback({ success: true, route })
 
-      // Broadcast route creation to interested clients
-      io.emit('route:created', { route })
+      // Broadcast route creation to the managers who can see it
+      const audience =
+        route.visibility === 'organization'
+          ? [organizationRoom(manager.organizationId)]
+          : [route.createdBy, ...route.sharedWith].map(managerRoom)
+      io.to(audience).emit('route:created', { route })
 
-      console.log(`✅ Route "${data.name}" created successfully by ${data.createdBy}`)
+      console.log(`✅ Route "${data.name}" created successfully by ${manager.managerId}`)
     } catch (error) {
       console.error('❌ Error creating route:', error)
 
@@ -449,50 +1206,70 @@ io.on('connection', (socket) => {
         console.error('Error stack:', error.stack)
       }
 
-      callback({ success: false, error: 'Failed to create route' })
+      callback({ success: false, error: 'Failed to create route', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('route:update', async (data, callback) => {
+    const manager = requireManager(socket, 'route:update', callback)
+    if (!manager) return
+
     try {
-      const route = await routeService.updateRoute(data.routeId, data.updatedBy, {
+      const result = await routeService.updateRoute(data.routeId, manager, {
         name: data.name,
         description: data.description,
         points: data.points,
         distance: data.distance,
+        path: data.path,
+        visibility: data.visibility,
+        sharedWith: data.sharedWith,
       })
 
-      if (route) {
-        callback({ success: true, route })
-        console.log(`Route ${data.routeId} updated by ${data.updatedBy}`)
+      if (result.success && result.route) {
+        callback({ success: true, route: result.route })
+        console.log(`Route ${data.routeId} updated by ${manager.managerId}`)
       } else {
-        callback({ success: false, error: 'Route not found or permission denied' })
+        callback({
+          success: false,
+          error: result.error || 'Failed to update route',
+          code: result.code || 'INTERNAL_ERROR',
+        })
       }
     } catch (error) {
       console.error('Error updating route:', error)
-      callback({ success: false, error: 'Failed to update route' })
+      callback({ success: false, error: 'Failed to update route', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('route:delete', async (data, callback) => {
+    const manager = requireManager(socket, 'route:delete', callback)
+    if (!manager) return
+
     try {
-      const success = await routeService.deleteRoute(data.routeId, data.deletedBy)
+      const result = await routeService.deleteRoute(data.routeId, manager)
 
-      if (success) {
+      if (result.success) {
         callback({ success: true })
-        console.log(`Route ${data.routeId} deleted by ${data.deletedBy}`)
+        console.log(`Route ${data.routeId} deleted by ${manager.managerId}`)
       } else {
-        callback({ success: false, error: 'Route not found or cannot be deleted' })
+        callback({
+          success: false,
+          error: result.error || 'Failed to delete route',
+          code: result.code || 'INTERNAL_ERROR',
+        })
       }
     } catch (error) {
       console.error('Error deleting route:', error)
-      callback({ success: false, error: 'Failed to delete route' })
+      callback({ success: false, error: 'Failed to delete route', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('route:list', async (data, callback) => {
+    const manager = requireManager(socket, 'route:list', callback)
+    if (!manager) return
+
     try {
-      const routes = await routeService.listRoutes({
+      const routes = await routeService.listRoutes(manager, {
         createdBy: data.createdBy,
         templatesOnly: data.templatesOnly,
       })
@@ -500,31 +1277,38 @@ io.on('connection', (socket) => {
       callback({ success: true, routes })
     } catch (error) {
       console.error('Error listing routes:', error)
-      callback({ success: false, error: 'Failed to list routes' })
+      callback({ success: false, error: 'Failed to list routes', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('route:get', async (data, callback) => {
+    const manager = requireManager(socket, 'route:get', callback)
+    if (!manager) return
+
     try {
-      const route = await routeService.getRoute(data.routeId)
+      const route = await routeService.getRoute(data.routeId, manager)
 
       if (route) {
         callback({ success: true, route })
       } else {
-        callback({ success: false, error: 'Route not found' })
+        callback({ success: false, error: 'Route not found', code: 'NOT_FOUND' })
       }
     } catch (error) {
       console.error('Error getting route:', error)
-      callback({ success: false, error: 'Failed to get route' })
+      callback({ success: false, error: 'Failed to get route', code: 'INTERNAL_ERROR' })
     }
   })
 
   socket.on('route:assign-to-session', async (data, callback) => {
+    const session = sessionManager.getSession(data.sessionId)
+    const manager = requireSessionManager(socket, 'route:assign-to-session', session, callback)
+    if (!manager) return
+
     try {
       const success = await sessionManager.assignRouteToSession(
         data.sessionId,
         data.routeId,
-        data.managerId
+        manager
       )
 
       if (success) {
@@ -540,22 +1324,34 @@ io.on('connection', (socket) => {
         callback({ success: true })
         console.log(`Route ${data.routeId} assigned to session ${data.sessionId}`)
       } else {
-        callback({ success: false, error: 'Failed to assign route to session' })
+        callback({
+          success: false,
+          error: 'Failed to assign route to session',
+          code: 'NOT_FOUND',
+        })
       }
     } catch (error) {
       console.error('Error assigning route to session:', error)
-      callback({ success: false, error: 'Failed to assign route to session' })
+      callback({
+        success: false,
+        error: 'Failed to assign route to session',
+        code: 'INTERNAL_ERROR',
+      })
     }
   })
 
   // Session route management
   socket.on('session:create-route', async (data, callback) => {
+    const session = sessionManager.getSession(data.sessionId)
+    const manager = requireSessionManager(socket, 'session:create-route', session, callback)
+    if (!manager) return
+
     try {
       const route = await sessionManager.createSessionRoute(
         data.sessionId,
         data.name,
         data.points,
-        data.managerId,
+        manager,
         data.description
       )
 
@@ -569,21 +1365,29 @@ io.on('connection', (socket) => {
         callback({ success: true, route })
         console.log(`Session route "${data.name}" created for session ${data.sessionId}`)
       } else {
-        callback({ success: false, error: 'Failed to create session route' })
+        callback({
+          success: false,
+          error: 'Failed to create session route',
+          code: 'INTERNAL_ERROR',
+        })
       }
     } catch (error) {
       console.error('Error creating session route:', error)
-      callback({ success: false, error: 'Failed to create session route' })
+      callback({
+        success: false,
+        error: 'Failed to create session route',
+        code: 'INTERNAL_ERROR',
+      })
     }
   })
 
   socket.on('session:update-route', async (data, callback) => {
+    const session = sessionManager.getSession(data.sessionId)
+    const manager = requireSessionManager(socket, 'session:update-route', session, callback)
+    if (!manager) return
+
     try {
-      const route = await sessionManager.updateSessionRoute(
-        data.sessionId,
-        data.points,
-        data.managerId
-      )
+      const route = await sessionManager.updateSessionRoute(data.sessionId, data.points, manager)
 
       if (route) {
         // Broadcast route update to all participants
@@ -595,47 +1399,386 @@ io.on('connection', (socket) => {
         callback({ success: true, route })
         console.log(`Session route updated for session ${data.sessionId}`)
       } else {
-        callback({ success: false, error: 'Failed to update session route' })
+        callback({
+          success: false,
+          error: 'Failed to update session route',
+          code: 'INTERNAL_ERROR',
+        })
       }
     } catch (error) {
       console.error('Error updating session route:', error)
-      callback({ success: false, error: 'Failed to update session route' })
+      callback({
+        success: false,
+        error: 'Failed to update session route',
+        code: 'INTERNAL_ERROR',
+      })
     }
   })
 
-  // Messaging
-  socket.on('message:send', (data) => {
+  socket.on('checkpoint:list', async (data, callback) => {
+    const participant = requireParticipant(socket, 'checkpoint:list', data.sessionId, callback)
+    if (!participant) return
+
     try {
-      const message = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        sessionId: data.sessionId,
-        fromId: data.fromId,
-        toId: data.toId,
-        content: data.content,
-        timestamp: Date.now(),
-        type: data.type,
+      const session = sessionManager.getSession(participant.sessionId)
+      if (!session) {
+        rejectEvent(socket, 'checkpoint:list', 'NOT_FOUND', 'Session not found', callback)
+        return
+      }
+      // The owner and co-managers of the session follow the check-ins
+      if (!session.participants.get(participant.participantId)?.isManager) {
+        rejectEvent(
+          socket,
+          'checkpoint:list',
+          'FORBIDDEN',
+          'Only managers can list check-ins',
+          callback
+        )
+        return
       }
 
-      if (data.type === 'broadcast') {
-        // Send to all participants in the session
-        socket.to(data.sessionId).emit('message:received', message)
-      } else {
-        // Send to specific participant (would need socket mapping for this)
-        // For now, broadcast to all and let client filter
-        socket.to(data.sessionId).emit('message:received', message)
+      const arrivals = session.route
+        ? await checkpointService.listArrivals(session.id, session.route.id)
+        : []
+      callback({ success: true, arrivals })
+    } catch (error) {
+      console.error('Error listing checkpoint arrivals:', error)
+      callback({ success: false, error: 'Failed to load check-ins', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('session:set-role', async (data, callback) => {
+    const session = sessionManager.getSession(data.sessionId)
+    const manager = requireSessionManager(socket, 'session:set-role', session, callback)
+    if (!manager || !session) return
+
+    const changed = sessionManager.setParticipantRole(session.id, data.participantId, data.role)
+    if (!changed) {
+      rejectEvent(socket, 'session:set-role', 'NOT_FOUND', 'Participant not found', callback)
+      return
+    }
+
+    for (const participant of changed) {
+      io.to(session.id).emit('session:participant-update', { sessionId: session.id, participant })
+    }
+    sendGroupSpread(session, true)
+
+    callback({ success: true })
+    console.log(
+      `🚩 ${data.participantId} is now ${data.role || 'without a role'} in session ${session.id}`
+    )
+  })
+
+  // Messaging
+  // Route a stored message to whoever may see it. Returns false when a direct message's
+  // recipient has no connected socket.
+  function deliverMessage(message: Message): boolean {
+    if (message.type === 'broadcast') {
+      // Send to all participants in the session
+      socket.to(message.sessionId).emit('message:received', message)
+      return true
+    }
+
+    // Only the recipient's sockets, plus the sender's other tabs so their conversation
+    // stays in step
+    const recipientSockets = presence.getSocketIds(message.sessionId, message.toId!)
+    const targets = [
+      ...recipientSockets,
+      ...presence.getSocketIds(message.sessionId, message.fromId),
+    ].filter((socketId) => socketId !== socket.id)
+
+    // An empty room list would broadcast to every socket on the server
+    if (targets.length > 0) {
+      io.to(targets).emit('message:received', message)
+    }
+    return recipientSockets.length > 0
+  }
+
+  socket.on('message:send', async (data, callback) => {
+    const participant = requireParticipant(socket, 'message:send', data.sessionId, callback)
+    if (!participant) return
+
+    const limit = rateLimits.messageSend.consume(
+      `${participant.sessionId}:${participant.participantId}`
+    )
+    if (!limit.allowed) {
+      rejectRateLimited(socket, 'message:send', limit.retryAfterMs, callback)
+      return
+    }
+
+    try {
+      const session = sessionManager.getSession(participant.sessionId)
+      if (!session) {
+        rejectEvent(socket, 'message:send', 'NOT_FOUND', 'Session not found', callback)
+        return
       }
+      if (data.type === 'direct' && !session.participants.has(data.toId!)) {
+        rejectEvent(
+          socket,
+          'message:send',
+          'NOT_FOUND',
+          'Recipient is not in this session',
+          callback
+        )
+        return
+      }
+
+      // Stored before it is routed so riders who reconnect or join later can load it
+      const message = await messageService.saveMessage(
+        participant.sessionId,
+        participant.participantId,
+        data
+      )
 
+      const delivered = deliverMessage(message)
+      callback({ success: true, message, delivered })
       console.log(
-        `Message sent from ${data.fromId} to ${data.toId || 'all'} in session ${data.sessionId}`
+        `Message sent from ${participant.participantId} to ${message.toId || 'all'} in session ${
+          participant.sessionId
+        }${delivered ? '' : ' (recipient offline)'}`
       )
     } catch (error) {
       console.error('Error sending message:', error)
+      callback({ success: false, error: 'Failed to send message', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  // Emergency
+  socket.on('sos:raised', async (data, callback) => {
+    const participant = requireParticipant(socket, 'sos:raised', data.sessionId, callback)
+    if (!participant) return
+
+    try {
+      const session = sessionManager.getSession(participant.sessionId)
+      const rider = session?.participants.get(participant.participantId)
+      if (!session || !rider) {
+        rejectEvent(socket, 'sos:raised', 'NOT_FOUND', 'Session not found', callback)
+        return
+      }
+
+      const { sos, isNew } = await sosService.raise(
+        session.id,
+        { id: rider.id, name: rider.name },
+        data.location,
+        data.trigger || 'manual'
+      )
+
+      // Once escalated, position updates go to everyone the alert was escalated to
+      const targets = sos.escalatedAt
+        ? [organizationRoom(session.organizationId)]
+        : sessionManagerIds(session).map(managerRoom)
+      io.to(targets).emit('sos:raised', sos)
+
+      callback({ success: true, sos })
+      console.log(
+        `🆘 ${rider.name} ${isNew ? `raised ${sos.trigger}` : 'updated'} SOS in session ${
+          session.id
+        } at ${data.location.lat},${data.location.lng}`
+      )
+    } catch (error) {
+      console.error('Error raising SOS:', error)
+      callback({ success: false, error: 'Failed to raise SOS', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('sos:acknowledged', async (data, callback) => {
+    const manager = requireManager(socket, 'sos:acknowledged', callback)
+    if (!manager) return
+
+    try {
+      // Any manager of the organization may respond, escalated or not
+      const organizationId = await sosService.getOrganizationId(data.sosId)
+      if (organizationId !== manager.organizationId) {
+        rejectEvent(socket, 'sos:acknowledged', 'NOT_FOUND', 'SOS alert not found', callback)
+        return
+      }
+
+      const sos = await sosService.acknowledge(data.sosId, manager)
+      if (!sos) {
+        rejectEvent(socket, 'sos:acknowledged', 'NOT_FOUND', 'SOS alert not found', callback)
+        return
+      }
+
+      // The managers the alert went to, as sos:raised chose them, the manager who
+      // responded, and the rider waiting for help
+      const session = sessionManager.getSession(sos.sessionId)
+      const alerted = sos.escalatedAt
+        ? [organizationRoom(manager.organizationId)]
+        : (session ? sessionManagerIds(session) : []).map(managerRoom)
+      io.to([
+        ...alerted,
+        managerRoom(manager.managerId),
+        ...presence.getSocketIds(sos.sessionId, sos.participantId),
+      ]).emit('sos:acknowledged', sos)
+
+      callback({ success: true, sos })
+      console.log(`✅ ${manager.managerName} acknowledged SOS from ${sos.participantName}`)
+    } catch (error) {
+      console.error('Error acknowledging SOS:', error)
+      callback({ success: false, error: 'Failed to acknowledge SOS', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('sos:list', async (data, callback) => {
+    const manager = requireManager(socket, 'sos:list', callback)
+    if (!manager) return
+
+    try {
+      const sessions = await sessionManager.getManagerSessions(manager.managerId)
+      const alerts = await sosService.listOpen(
+        manager.organizationId,
+        sessions.map((session) => session.id)
+      )
+      callback({ success: true, alerts })
+    } catch (error) {
+      console.error('Error listing SOS alerts:', error)
+      callback({ success: false, error: 'Failed to load SOS alerts', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('alert:list', async (data, callback) => {
+    const manager = requireManager(socket, 'alert:list', callback)
+    if (!manager) return
+
+    try {
+      const alerts = await organizationService.listQuickAlerts(manager.organizationId)
+      callback({ success: true, alerts })
+    } catch (error) {
+      console.error('Error listing quick alerts:', error)
+      callback({ success: false, error: 'Failed to load quick alerts', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('alert:send', async (data, callback) => {
+    const participant = requireParticipant(socket, 'alert:send', data.sessionId, callback)
+    if (!participant) return
+
+    const limit = rateLimits.messageSend.consume(
+      `${participant.sessionId}:${participant.participantId}`
+    )
+    if (!limit.allowed) {
+      rejectRateLimited(socket, 'alert:send', limit.retryAfterMs, callback)
+      return
+    }
+
+    try {
+      const session = sessionManager.getSession(participant.sessionId)
+      if (!session) {
+        rejectEvent(socket, 'alert:send', 'NOT_FOUND', 'Session not found', callback)
+        return
+      }
+      // The owner and co-managers of the session may send alerts
+      if (!session.participants.get(participant.participantId)?.isManager) {
+        rejectEvent(socket, 'alert:send', 'FORBIDDEN', 'Only managers can send alerts', callback)
+        return
+      }
+      if (data.toId !== undefined && !session.participants.has(data.toId)) {
+        rejectEvent(socket, 'alert:send', 'NOT_FOUND', 'Recipient is not in this session', callback)
+        return
+      }
+
+      const alert = await organizationService.getQuickAlert(session.organizationId, data.alertId)
+      if (!alert) {
+        rejectEvent(socket, 'alert:send', 'NOT_FOUND', 'Alert not found', callback)
+        return
+      }
+
+      const message = await messageService.saveMessage(
+        participant.sessionId,
+        participant.participantId,
+        {
+          toId: data.toId,
+          content: alert.label,
+          type: data.toId ? 'direct' : 'broadcast',
+          priority: alert.priority,
+        }
+      )
+      const delivered = deliverMessage(message)
+      callback({ success: true, message, delivered })
+      console.log(
+        `🚨 ${alert.priority} alert "${alert.label}" sent to ${data.toId || 'all'} in session ${
+          participant.sessionId
+        }`
+      )
+    } catch (error) {
+      console.error('Error sending alert:', error)
+      callback({ success: false, error: 'Failed to send alert', code: 'INTERNAL_ERROR' })
+    }
+  })
+
+  socket.on('message:history', async (data, callback) => {
+    const participant = requireParticipant(socket, 'message:history', data.sessionId, callback)
+    if (!participant) return
+
+    try {
+      const { messages, hasMore } = await messageService.getHistory(
+        participant.sessionId,
+        participant.participantId,
+        {
+          conversationId: data.conversationId,
+          before: data.before,
+          limit: data.limit ?? 50,
+        }
+      )
+      const readState = data.before
+        ? undefined
+        : await messageService.getReadState(participant.sessionId, participant.participantId)
+
+      callback({ success: true, messages, hasMore, readState })
+    } catch (error) {
+      console.error('Error loading message history:', error)
+      callback({
+        success: false,
+        error: 'Failed to load messages',
+        code: 'INTERNAL_ERROR',
+      })
+    }
+  })
+
+  socket.on('message:read', async (data, callback) => {
+    const participant = requireParticipant(socket, 'message:read', data.sessionId, callback)
+    if (!participant) return
+
+    try {
+      const lastReadAt = await messageService.markRead(
+        participant.sessionId,
+        participant.participantId,
+        data.conversationId,
+        data.lastReadAt
+      )
+
+      // The reader's other tabs clear their unread counts; in a direct conversation the
+      // peer gets a read receipt
+      const targets = presence
+        .getSocketIds(participant.sessionId, participant.participantId)
+        .filter((socketId) => socketId !== socket.id)
+      if (data.conversationId !== BROADCAST_CONVERSATION) {
+        targets.push(...presence.getSocketIds(participant.sessionId, data.conversationId))
+      }
+      if (targets.length > 0) {
+        io.to(targets).emit('message:read', {
+          sessionId: participant.sessionId,
+          readerId: participant.participantId,
+          conversationId: data.conversationId,
+          lastReadAt,
+        })
+      }
+
+      callback({ success: true })
+    } catch (error) {
+      console.error('Error marking messages as read:', error)
+      callback({
+        success: false,
+        error: 'Failed to mark messages as read',
+        code: 'INTERNAL_ERROR',
+      })
     }
   })
 
   // Handle disconnection
   socket.on('disconnect', () => {
     console.log(`Client disconnected: ${socket.id}`)
+    presence.detach(socket.id)
   })
 })
 
@@ -649,7 +1792,8 @@ async function gracefulShutdown(signal: string) {
       console.log('📡 HTTP server closed')
     })
 
-    // Disconnect from database
+    // Write the positions still queued, then disconnect from database
+    await locationHistory.stop()
     await databaseService.disconnect()
 
     console.log('✅ Graceful shutdown completed')
@@ -664,9 +1808,19 @@ async function gracefulShutdown(signal: string) {
 process.on('SIGTERM', () => gracefulShutdown('SIGTERM'))
 process.on('SIGINT', () => gracefulShutdown('SIGINT'))
 
+// Remove riders who have been offline too long - checked every minute
+setInterval(() => {
+  const pruned = sessionManager.pruneOfflineParticipants(serverConfig.presence.pruneAfterMs)
+  for (const { sessionId, participantId } of pruned) {
+    routeMonitor.forget(sessionId, participantId)
+    io.to(sessionId).emit('session:left', { sessionId, participantId })
+  }
+}, 60 * 1000)
+
 // Cleanup job - run every hour
 setInterval(async () => {
-  await sessionManager.cleanup()
+  await sessionManager.cleanup(serverConfig.locationHistory.retentionMs)
+  await locationHistory.purgeExpired()
 }, 60 * 60 * 1000)
 
 const PORT = Number(process.env.PORT) || 3200
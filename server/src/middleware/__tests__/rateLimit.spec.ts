@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { getSocketIp } from '../rateLimit'
+
+function socketFrom(address: string, forwardedFor?: string) {
+  const headers = forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor }
+  return { handshake: { address, headers } } as unknown as Parameters<typeof getSocketIp>[0]
+}
+
+describe('getSocketIp', () => {
+  it('takes the address the trusted proxy appended', () => {
+    expect(getSocketIp(socketFrom('10.0.0.1', '203.0.113.7'), true)).toBe('203.0.113.7')
+  })
+
+  it('ignores entries the client wrote in front of it', () => {
+    const spoofed = socketFrom('10.0.0.1', '198.51.100.23, 192.0.2.99,203.0.113.7')
+    expect(getSocketIp(spoofed, true)).toBe('203.0.113.7')
+  })
+
+  it('uses the connection address when not behind a proxy', () => {
+    expect(getSocketIp(socketFrom('203.0.113.7', '198.51.100.23'), false)).toBe('203.0.113.7')
+    expect(getSocketIp(socketFrom('203.0.113.7'), true)).toBe('203.0.113.7')
+  })
+})
@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction } from 'express'
+import { LockoutPolicy, RateLimitRule, ServerConfig } from '../config'
+import { AppSocket } from './socketAuth'
+import { ClientToServerEvents, ErrorCode } from '../types'
+
+type LimitResult = { allowed: boolean; retryAfterMs: number }
+
+const PRUNE_INTERVAL_MS = 60_000
+
+// Fixed-window request counter per key. State is in memory, which is enough for
+// the single server instance this app runs as.
+export class RateLimiter {
+  private windows: Map<string, { count: number; resetAt: number }> = new Map()
+
+  constructor(private rule: RateLimitRule) {}
+
+  consume(key: string, now: number = Date.now()): LimitResult {
+    let window = this.windows.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.rule.windowMs }
+      this.windows.set(key, window)
+    }
+
+    if (window.count >= this.rule.points) {
+      return { allowed: false, retryAfterMs: window.resetAt - now }
+    }
+
+    window.count++
+    return { allowed: true, retryAfterMs: 0 }
+  }
+
+  prune(now: number = Date.now()): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
+
+// Locks a key out after too many failed attempts. Each further lockout doubles in
+// length up to the policy maximum; the escalation is forgotten once the key has
+// stayed quiet for a full failure window after its last lockout.
+export class FailureLockout {
+  private entries: Map<string, { failures: number[]; lockouts: number; lockedUntil: number }> =
+    new Map()
+
+  constructor(private policy: LockoutPolicy) {}
+
+  check(key: string, now: number = Date.now()): LimitResult {
+    const entry = this.entries.get(key)
+    if (entry && entry.lockedUntil > now) {
+      return { allowed: false, retryAfterMs: entry.lockedUntil - now }
+    }
+    return { allowed: true, retryAfterMs: 0 }
+  }
+
+  // Returns the lockout the failure triggered, if any
+  recordFailure(key: string, now: number = Date.now()): LimitResult {
+    const entry = this.entries.get(key) || { failures: [], lockouts: 0, lockedUntil: 0 }
+    entry.failures = entry.failures.filter((at) => at > now - this.policy.failureWindowMs)
+    entry.failures.push(now)
+    this.entries.set(key, entry)
+
+    if (entry.failures.length < this.policy.maxFailures) {
+      return { allowed: true, retryAfterMs: 0 }
+    }
+
+    const lockoutMs = Math.min(
+      this.policy.baseLockoutMs * 2 ** entry.lockouts,
+      this.policy.maxLockoutMs
+    )
+    entry.lockouts++
+    entry.lockedUntil = now + lockoutMs
+    entry.failures = []
+
+    return { allowed: false, retryAfterMs: lockoutMs }
+  }
+
+  prune(now: number = Date.now()): void {
+    for (const [key, entry] of this.entries) {
+      const lastFailure = entry.failures[entry.failures.length - 1] || 0
+      const quietSince = Math.max(entry.lockedUntil, lastFailure)
+      if (quietSince + this.policy.failureWindowMs <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
+
+// All limiters the server applies, built from the server config
+export class RateLimits {
+  readonly joinPerIp: RateLimiter
+  readonly joinPerSocket: RateLimiter
+  readonly joinLockout: FailureLockout
+  readonly locationUpdate: RateLimiter
+  readonly messageSend: RateLimiter
+  readonly apiLocation: RateLimiter
+  readonly apiLocationPerIp: RateLimiter
+
+  constructor(config: ServerConfig['rateLimits']) {
+    this.joinPerIp = new RateLimiter(config.joinPerIp)
+    this.joinPerSocket = new RateLimiter(config.joinPerSocket)
+    this.joinLockout = new FailureLockout(config.joinLockout)
+    this.locationUpdate = new RateLimiter(config.locationUpdate)
+    this.messageSend = new RateLimiter(config.messageSend)
+    this.apiLocation = new RateLimiter(config.apiLocation)
+    this.apiLocationPerIp = new RateLimiter(config.apiLocationPerIp)
+
+    // Drop expired state so memory does not grow with every client ever seen
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref()
+  }
+
+  // PIN attempts are limited per IP and per socket, and IPs that keep guessing
+  // wrong PINs are locked out
+  checkJoin(ip: string, socketId: string): LimitResult {
+    const lockout = this.joinLockout.check(ip)
+    if (!lockout.allowed) {
+      return lockout
+    }
+
+    const perIp = this.joinPerIp.consume(ip)
+    if (!perIp.allowed) {
+      return perIp
+    }
+
+    return this.joinPerSocket.consume(socketId)
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    this.joinPerIp.prune(now)
+    this.joinPerSocket.prune(now)
+    this.joinLockout.prune(now)
+    this.locationUpdate.prune(now)
+    this.messageSend.prune(now)
+    this.apiLocation.prune(now)
+    this.apiLocationPerIp.prune(now)
+  }
+}
+
+// Client IP of a socket, honouring X-Forwarded-For only when behind a trusted proxy.
+// Clients can send the header themselves and the proxy appends the address it saw, so
+// only the last entry is trusted, as Express does for REST with 'trust proxy' set to 1.
+export function getSocketIp(socket: Pick<AppSocket, 'handshake'>, trustProxy: boolean): string {
+  const forwardedFor = socket.handshake.headers['x-forwarded-for']
+  if (trustProxy && typeof forwardedFor === 'string' && forwardedFor.trim()) {
+    const entries = forwardedFor.split(',')
+    return entries[entries.length - 1].trim()
+  }
+  return socket.handshake.address
+}
+
+// Report a throttled event through the error event and fail its callback if there is one
+export function rejectRateLimited(
+  socket: AppSocket,
+  event: keyof ClientToServerEvents,
+  retryAfterMs: number,
+  callback?: (response: { success: false; error: string; code: ErrorCode }) => void
+): void {
+  const message = `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+  socket.emit('error', { message, code: 'RATE_LIMITED', event, retryAfterMs })
+  if (callback) {
+    callback({ success: false, error: message, code: 'RATE_LIMITED' })
+  }
+  console.warn(`⏳ Rate limited ${event} from ${socket.id}`)
+}
+
+// Express middleware applying a limiter to a REST endpoint per client IP. Anything a
+// client sends unverified, such as its bearer token, could be varied to get around it;
+// per-client limits belong after authentication, through rejectApiRateLimited.
+export function createApiRateLimit(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = limiter.consume(`ip:${req.ip || 'unknown'}`)
+    if (result.allowed) {
+      return next()
+    }
+    rejectApiRateLimited(res, result.retryAfterMs)
+  }
+}
+
+// Answer a throttled REST request
+export function rejectApiRateLimited(res: Response, retryAfterMs: number): void {
+  res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000).toString())
+  res.status(429).json({
+    success: false,
+    error: 'Too many requests',
+    code: 'RATE_LIMITED',
+  })
+}
@@ -0,0 +1,151 @@
+import { Socket } from 'socket.io'
+import { AuthService } from '../services/AuthService'
+import {
+  ClientToServerEvents,
+  ErrorCode,
+  HandshakeAuth,
+  InterServerEvents,
+  ManagerRole,
+  PROTOCOL_VERSION,
+  ServerToClientEvents,
+  Session,
+  SocketData,
+} from '../types'
+
+export type AppSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>
+
+type ErrorCallback = (response: { success: false; error: string; code: ErrorCode }) => void
+
+// Handshake middleware: clients speaking another protocol version are turned away, then
+// a socket either presents a valid manager token or connects as a guest. Guests can only
+// become participants by joining a session with a PIN.
+export function createSocketAuthMiddleware(authService: AuthService) {
+  return async (socket: AppSocket, next: (err?: Error) => void) => {
+    const { token, protocolVersion } = (socket.handshake.auth || {}) as HandshakeAuth
+
+    const clientVersion = typeof protocolVersion === 'number' ? protocolVersion : 1
+    if (clientVersion !== PROTOCOL_VERSION) {
+      console.warn(
+        `🧩 Refused ${socket.id}: client protocol v${clientVersion}, server v${PROTOCOL_VERSION}`
+      )
+      return next(
+        createHandshakeError(
+          clientVersion < PROTOCOL_VERSION
+            ? 'This version of RideMapper is out of date. Please reload the app to update.'
+            : 'The server is running an older version of RideMapper. Please try again shortly.',
+          'UPGRADE_REQUIRED'
+        )
+      )
+    }
+
+    if (!token) {
+      return next()
+    }
+
+    if (typeof token !== 'string') {
+      return next(createHandshakeError('Invalid token'))
+    }
+
+    const manager = await authService.verifyManagerToken(token)
+    if (!manager) {
+      return next(createHandshakeError('Invalid or expired token'))
+    }
+
+    socket.data.managerId = manager.id
+    socket.data.managerName = manager.name
+    socket.data.organizationId = manager.organizationId
+    socket.data.managerRole = manager.role
+    next()
+  }
+}
+
+// Reject an event: emit a typed error to the socket and fail the callback if there is one
+export function rejectEvent(
+  socket: AppSocket,
+  event: keyof ClientToServerEvents,
+  code: ErrorCode,
+  message: string,
+  callback?: ErrorCallback
+): void {
+  socket.emit('error', { message, code, event })
+  if (callback) {
+    callback({ success: false, error: message, code })
+  }
+  console.warn(`🚫 Rejected ${event} from ${socket.id}: ${code} - ${message}`)
+}
+
+export interface SocketManager {
+  managerId: string
+  managerName: string
+  organizationId: string
+  role: ManagerRole
+}
+
+// Returns the manager bound to the socket, or rejects the event
+export function requireManager(
+  socket: AppSocket,
+  event: keyof ClientToServerEvents,
+  callback?: ErrorCallback
+): SocketManager | null {
+  const { managerId, managerName, organizationId, managerRole } = socket.data
+  if (!managerId || !managerName || !organizationId || !managerRole) {
+    rejectEvent(socket, event, 'UNAUTHENTICATED', 'Manager authentication required', callback)
+    return null
+  }
+  return { managerId, managerName, organizationId, role: managerRole }
+}
+
+// Returns the manager bound to the socket if they own the given active session, or rejects the event
+export function requireSessionManager(
+  socket: AppSocket,
+  event: keyof ClientToServerEvents,
+  session: Session | undefined,
+  callback?: ErrorCallback
+): SocketManager | null {
+  const manager = requireManager(socket, event, callback)
+  if (!manager) {
+    return null
+  }
+  if (!session || !session.isActive) {
+    rejectEvent(socket, event, 'NOT_FOUND', 'Session not found or inactive', callback)
+    return null
+  }
+  if (session.managerId !== manager.managerId) {
+    rejectEvent(socket, event, 'FORBIDDEN', 'Only the session manager can do this', callback)
+    return null
+  }
+  return manager
+}
+
+// Returns the session participant bound to the socket, or rejects the event.
+// When a sessionId is given it must match the bound session.
+export function requireParticipant(
+  socket: AppSocket,
+  event: keyof ClientToServerEvents,
+  sessionId?: string,
+  callback?: ErrorCallback
+): { sessionId: string; participantId: string } | null {
+  const { sessionId: boundSessionId, participantId } = socket.data
+  if (!boundSessionId || !participantId) {
+    rejectEvent(socket, event, 'UNAUTHENTICATED', 'Join a session first', callback)
+    return null
+  }
+  if (sessionId !== undefined && sessionId !== boundSessionId) {
+    rejectEvent(socket, event, 'FORBIDDEN', 'Not a member of this session', callback)
+    return null
+  }
+  return { sessionId: boundSessionId, participantId }
+}
+
+function createHandshakeError(message: string, code: ErrorCode = 'UNAUTHENTICATED'): Error {
+  const error = new Error(message) as Error & {
+    data: { code: ErrorCode; protocolVersion: number }
+  }
+  error.data = { code, protocolVersion: PROTOCOL_VERSION }
+  return error
+}
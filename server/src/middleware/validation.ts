@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError, ZodTypeAny } from 'zod'
+import { AppSocket } from './socketAuth'
+import { eventSchemas } from '../validation/schemas'
+import { ClientToServerEvents, ErrorCode, FieldError } from '../types'
+
+type ValidationFailure = {
+  success: false
+  error: string
+  code: ErrorCode
+  fields: FieldError[]
+}
+
+function toFieldErrors(error: ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.') || '(payload)',
+    message: issue.message,
+  }))
+}
+
+function describeFailure(fields: FieldError[]): string {
+  return `Invalid request: ${fields.map((field) => `${field.field} (${field.message})`).join(', ')}`
+}
+
+function isEvent(event: string): event is keyof ClientToServerEvents {
+  return Object.prototype.hasOwnProperty.call(eventSchemas, event)
+}
+
+// Per-socket middleware validating every incoming event against its schema before any
+// handler runs. Valid payloads are replaced by their parsed form (trimmed strings,
+// unknown keys dropped); invalid ones are answered and never reach the handler.
+export function createSocketValidationMiddleware(socket: AppSocket) {
+  return (packet: [string, ...unknown[]], next: (err?: Error) => void) => {
+    const [event, data] = packet
+    const last = packet[packet.length - 1]
+    const callback = typeof last === 'function' ? (last as (response: unknown) => void) : undefined
+
+    if (!isEvent(event)) {
+      const fields = [{ field: '(event)', message: `Unknown event "${event}"` }]
+      rejectInvalid(socket, event, fields, callback)
+      return
+    }
+
+    const result = eventSchemas[event].safeParse(data)
+    if (!result.success) {
+      rejectInvalid(socket, event, toFieldErrors(result.error), callback)
+      return
+    }
+
+    packet[1] = result.data
+    next()
+  }
+}
+
+function rejectInvalid(
+  socket: AppSocket,
+  event: string,
+  fields: FieldError[],
+  callback?: (response: ValidationFailure) => void
+): void {
+  const message = describeFailure(fields)
+  socket.emit('error', {
+    message,
+    code: 'INVALID_REQUEST',
+    event: isEvent(event) ? event : undefined,
+    fields,
+  })
+  if (callback) {
+    callback({ success: false, error: message, code: 'INVALID_REQUEST', fields })
+  }
+  console.warn(`🧾 Rejected invalid ${event} from ${socket.id}: ${message}`)
+}
+
+// Express middleware validating the JSON body of a REST endpoint. The handler sees
+// the parsed body; invalid requests get a 400 in the same shape as socket errors.
+export function validateBody(schema: ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {})
+    if (result.success) {
+      req.body = result.data
+      return next()
+    }
+
+    const fields = toFieldErrors(result.error)
+    const failure: ValidationFailure = {
+      success: false,
+      error: describeFailure(fields),
+      code: 'INVALID_REQUEST',
+      fields,
+    }
+    res.status(400).json(failure)
+  }
+}
@@ -0,0 +1,625 @@
+// Wire protocol shared by the server and the client. The client imports this file
+// directly (see the @protocol alias in vite.config.ts), so it must stay free of
+// runtime dependencies and server-only types.
+
+// Bumped whenever an event or payload changes incompatibly. Clients send their version
+// in the handshake and are turned away with UPGRADE_REQUIRED when it does not match.
+// Clients built before the check existed send none and count as version 1.
+export const PROTOCOL_VERSION = 3
+
+// Sent by clients in the Socket.IO handshake's auth payload
+export interface HandshakeAuth {
+  token?: string // Manager token; participants connect without one
+  protocolVersion?: number
+}
+
+export interface Location {
+  lat: number
+  lng: number
+  timestamp: number
+  accuracy?: number // Meters, as the device reports it
+  speed?: number // m/s, as the device reports it
+}
+
+// One participant's recorded positions, oldest first
+export interface LocationTrack {
+  participantId: string
+  points: Location[]
+}
+
+// Checkpoints and regroup points are intermediate points riders check in at by
+// reaching them; at a regroup point the group waits until everyone has arrived
+export type RoutePointType = 'start' | 'end' | 'waypoint' | 'checkpoint' | 'regroup'
+
+export interface RoutePoint {
+  lat: number
+  lng: number
+  type: RoutePointType
+  radius?: number // Check-in distance in meters for checkpoints and regroup points
+}
+
+// Check-in distance for checkpoints and regroup points saved without a radius
+export const DEFAULT_CHECKPOINT_RADIUS = 50
+
+// A rider reaching a checkpoint or regroup point. Points are identified by their
+// position in the route's points.
+export interface CheckpointArrival {
+  sessionId: string
+  routeId: string
+  pointIndex: number
+  participantId: string
+  participantName: string
+  arrivedAt: number
+}
+
+// Who can see a route besides its owner and the organization's admins
+export type RouteVisibility = 'private' | 'shared' | 'organization'
+
+// Route entity - separate from sessions
+export interface Route {
+  id: string
+  name: string
+  description?: string
+  points: RoutePoint[]
+  distance?: number // Distance in meters
+  path?: string // Road geometry computed for the points, as an encoded polyline
+  createdBy: string // Manager ID
+  organizationId: string
+  visibility: RouteVisibility
+  sharedWith: string[] // Manager IDs, only used when visibility is 'shared'
+  createdAt: number
+  updatedAt: number
+  isTemplate: boolean // true for reusable templates, false for session-specific
+}
+
+// Riders a manager designates to ride at the front and at the back of the group
+export type RideRole = 'lead' | 'sweep'
+
+// Set on a rider who has stayed away from the session's route for too long
+export interface OffRouteStatus {
+  distance: number // Meters from the route at the latest position
+  since: number // When the rider first left the route
+}
+
+// How far a rider has come along the session's route. Distances are in meters along
+// the route; arrival times are unknown while the rider is stopped.
+export interface RiderProgress {
+  covered: number
+  remaining: number // To the finish
+  speed: number // m/s over the last few location samples, 0 while stopped
+  nextCheckpoint?: { pointIndex: number; distance: number; eta?: number }
+  eta?: number // Expected arrival at the finish
+  updatedAt: number
+}
+
+export interface Participant {
+  id: string
+  name: string
+  location?: Location
+  isOnline: boolean
+  isManager: boolean
+  joinedAt: number
+  lastSeen: number
+  offRoute?: OffRouteStatus
+  progress?: RiderProgress
+  role?: RideRole // At most one lead and one sweep per session
+}
+
+// How stretched out the group is along the route. Gaps are in meters along the route
+// and only set when the riders they are measured between are on it.
+export interface GroupSpread {
+  sessionId: string
+  leadToSweep?: number
+  sweepToLast?: number // From the sweep back to the rearmost rider behind them, 0 if none
+  lastRiderId?: string
+  maxGap: number // The limit above which the group counts as too spread out
+  exceeded: boolean
+  band: { lat: number; lng: number }[] // The route between the rearmost and frontmost riders
+}
+
+// Serialized version for network transmission
+export interface SerializedSession {
+  id: string
+  pin: string
+  managerId: string
+  managerName: string
+  organizationId: string
+  routeId?: string
+  route?: Route
+  participants: { [key: string]: Participant }
+  createdAt: number
+  updatedAt: number
+  isActive: boolean
+  endsAt?: number
+}
+
+// An ended session as listed for replays
+export interface SessionSummary {
+  id: string
+  pin: string
+  managerName: string
+  routeName?: string
+  createdAt: number
+  endedAt: number
+  participantCount: number
+}
+
+// Something that happened during a session, shown on a replay's timeline
+export type ReplayEvent =
+  | { type: 'route'; timestamp: number; points: RoutePoint[]; path?: string } // The route from then on
+  | { type: 'message'; timestamp: number; message: Message }
+
+// Everything needed to play an ended session back
+export interface SessionReplay {
+  session: SessionSummary
+  participants: { id: string; name: string; isManager: boolean }[]
+  tracks: LocationTrack[]
+  events: ReplayEvent[] // Oldest first
+}
+
+// One participant's ride, as summed up in a session report
+export interface RiderReport {
+  participantId: string
+  name: string
+  isManager: boolean
+  distance: number // Meters ridden
+  movingTime: number // Milliseconds
+  averageSpeed: number // m/s while moving
+  maxSpeed: number // m/s
+  stopCount: number // Standstills of a minute or more
+  stoppedTime: number // Milliseconds, over all stops
+  longestStop: number // Milliseconds
+  checkpointsReached: number // Checkpoints and regroup points of the final route
+  messagesSent: number
+}
+
+// Post-ride summary of an ended session
+export interface SessionReport {
+  sessionId: string
+  pin: string
+  managerName: string
+  routeName?: string
+  startedAt: number
+  endedAt: number
+  checkpointCount: number // Checkpoints and regroup points on the final route
+  riders: RiderReport[]
+  generatedAt: number
+}
+
+// File formats recorded tracks can be exported in
+export type TrackExportFormat = 'gpx' | 'kml' | 'geojson'
+
+export interface Message {
+  id: string
+  sessionId: string
+  fromId: string
+  toId?: string // undefined for broadcast messages
+  content: string
+  timestamp: number
+  type: 'direct' | 'broadcast'
+  priority?: AlertPriority // Set for quick alerts
+}
+
+// High-priority alerts interrupt the rider full screen
+export type AlertPriority = 'low' | 'normal' | 'high'
+
+// A predefined alert managers send with one tap. Each organization configures its own.
+export interface QuickAlert {
+  id: string
+  label: string
+  priority: AlertPriority
+}
+
+// What raised an SOS: the rider's button, or crash detection the rider did not cancel
+export type SosTrigger = 'manual' | 'crash'
+
+// A rider's emergency call. It stays open until a manager acknowledges it, and goes to
+// every manager of the organization if nobody does in time.
+export interface SosAlert {
+  id: string
+  sessionId: string
+  sessionPin: string // Lets managers outside the session join it to help
+  participantId: string
+  participantName: string
+  location: Location
+  trigger: SosTrigger
+  raisedAt: number
+  escalatedAt?: number
+  acknowledgedAt?: number
+  acknowledgedBy?: string // Name of the manager who acknowledged
+}
+
+// Conversation holding a session's broadcast messages. Direct conversations are
+// identified by the other participant's ID.
+export const BROADCAST_CONVERSATION = 'all'
+
+// A participant's read positions, as timestamps of the last message read, keyed by
+// conversation ID
+export interface MessageReadState {
+  lastRead: Record<string, number>
+  unread: Record<string, number> // Messages from others after lastRead
+  readByPeer: Record<string, number> // How far each peer has read their direct conversation with the participant
+}
+
+// Error codes sent with rejected socket events and failed callbacks
+export type ErrorCode =
+  | 'UNAUTHENTICATED' // No valid identity is bound to the socket
+  | 'FORBIDDEN' // The bound identity may not perform this action
+  | 'NOT_FOUND'
+  | 'INVALID_REQUEST'
+  | 'CONFLICT' // The request clashes with the current state, e.g. deleting a route in use
+  | 'RATE_LIMITED' // Too many requests; retry after the reported delay
+  | 'UPGRADE_REQUIRED' // The client speaks a different protocol version than the server
+  | 'INTERNAL_ERROR'
+
+// A payload field that failed validation, e.g. { field: 'points.3.lat', message: '...' }
+export interface FieldError {
+  field: string
+  message: string
+}
+
+// Socket event types
+export interface ServerToClientEvents {
+  // Session events
+  'session:joined': (data: { sessionId: string; participant: Participant }) => void
+  'session:left': (data: { sessionId: string; participantId: string }) => void
+  'session:ended': (data: { sessionId: string }) => void
+  'session:participant-update': (data: { sessionId: string; participant: Participant }) => void
+
+  // Location events
+  'location:updated': (data: {
+    sessionId: string
+    participantId: string
+    location: Location
+  }) => void
+
+  // Route events
+  'route:updated': (data: { sessionId: string; route: Route }) => void
+  'route:created': (data: { route: Route }) => void
+
+  // Message events
+  'message:received': (data: Message) => void
+  // A participant read a conversation up to lastReadAt. Sent to the reader's other
+  // sockets and, for direct conversations, to the peer as a read receipt.
+  'message:read': (data: {
+    sessionId: string
+    readerId: string
+    conversationId: string
+    lastReadAt: number
+  }) => void
+
+  // SOS events. Raised alerts go to the session's managers, escalated ones to every
+  // manager of the organization, acknowledgements to both and to the rider.
+  'sos:raised': (data: SosAlert) => void
+  'sos:escalated': (data: SosAlert) => void
+  'sos:acknowledged': (data: SosAlert) => void
+
+  // Route adherence, sent to the session's managers and to the rider concerned
+  'rider:off-route': (data: {
+    sessionId: string
+    participantId: string
+    offRoute: OffRouteStatus
+  }) => void
+  'rider:back-on-route': (data: { sessionId: string; participantId: string }) => void
+  // Sent every few seconds as the rider's position updates, to the session's managers
+  // and to the rider themselves
+  'rider:progress': (data: {
+    sessionId: string
+    participantId: string
+    progress: RiderProgress
+  }) => void
+  // Sent to the session's managers every few seconds while a lead or sweep is assigned,
+  // and at once when roles change
+  'group:spread': (data: GroupSpread) => void
+  // Sent to the session's managers and to the rider who checked in
+  'checkpoint:arrived': (data: CheckpointArrival) => void
+
+  // Error events
+  error: (data: {
+    message: string
+    code: ErrorCode
+    event?: keyof ClientToServerEvents
+    retryAfterMs?: number // Set for RATE_LIMITED errors
+    fields?: FieldError[] // Set for INVALID_REQUEST errors raised by payload validation
+  }) => void
+}
+
+export interface ClientToServerEvents {
+  // Session management
+  'session:create': (
+    data: { routeId?: string },
+    callback: (response: {
+      success: boolean
+      session?: SerializedSession
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'session:join': (
+    data: { pin: string; participantName: string },
+    callback: (response: {
+      success: boolean
+      session?: SerializedSession
+      participantId?: string
+      participantToken?: string
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'session:join-as-manager': (
+    data: { pin: string },
+    callback: (response: {
+      success: boolean
+      session?: SerializedSession
+      participantId?: string
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'session:leave': (data: { sessionId: string }) => void
+  'session:end': (data: { sessionId: string }) => void
+  'session:rejoin': (
+    data: { sessionId: string; participantToken: string },
+    callback: (response: {
+      success: boolean
+      session?: SerializedSession
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'session:list': (
+    data: Record<string, never>,
+    callback: (response: {
+      success: boolean
+      sessions?: SerializedSession[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Ended sessions of the manager's organization, newest first
+  'session:list-ended': (
+    data: Record<string, never>,
+    callback: (response: {
+      success: boolean
+      sessions?: SessionSummary[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Messages in a replay are those the requesting manager could see during the session
+  'session:replay': (
+    data: { sessionId: string },
+    callback: (response: {
+      success: boolean
+      replay?: SessionReplay
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'session:validate-manager': (
+    data: { sessionId: string },
+    callback: (response: {
+      success: boolean
+      session?: SerializedSession
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+
+  // Location updates
+  'location:update': (data: { sessionId: string; location: Location }) => void
+
+  // Route management
+  'route:create': (
+    data: {
+      name: string
+      description?: string
+      points: RoutePoint[]
+      distance?: number
+      path?: string
+      isTemplate?: boolean
+      visibility?: RouteVisibility
+      sharedWith?: string[]
+    },
+    callback: (response: {
+      success: boolean
+      route?: Route
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Points sent without a path drop the road geometry stored for the old points
+  'route:update': (
+    data: {
+      routeId: string
+      name?: string
+      description?: string
+      points?: RoutePoint[]
+      distance?: number
+      path?: string
+      visibility?: RouteVisibility
+      sharedWith?: string[]
+    },
+    callback: (response: {
+      success: boolean
+      route?: Route
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'route:delete': (
+    data: { routeId: string },
+    callback: (response: { success: boolean; error?: string; code?: ErrorCode }) => void
+  ) => void
+  'route:list': (
+    data: { createdBy?: string; templatesOnly?: boolean },
+    callback: (response: {
+      success: boolean
+      routes?: Route[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'route:get': (
+    data: { routeId: string },
+    callback: (response: {
+      success: boolean
+      route?: Route
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'route:assign-to-session': (
+    data: { sessionId: string; routeId: string },
+    callback: (response: { success: boolean; error?: string; code?: ErrorCode }) => void
+  ) => void
+
+  // Session route management (for editing routes within a session)
+  'session:create-route': (
+    data: {
+      sessionId: string
+      name: string
+      description?: string
+      points: RoutePoint[]
+    },
+    callback: (response: {
+      success: boolean
+      route?: Route
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'session:update-route': (
+    data: { sessionId: string; points: RoutePoint[] },
+    callback: (response: {
+      success: boolean
+      route?: Route
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Recorded positions within a time window. Managers get any participant's track, or
+  // everyone's without a participant; riders only get their own.
+  'location:history': (
+    data: { sessionId: string; participantId?: string; since?: number; until?: number },
+    callback: (response: {
+      success: boolean
+      tracks?: LocationTrack[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Check-ins at the session's current route, for its managers
+  'checkpoint:list': (
+    data: { sessionId: string },
+    callback: (response: {
+      success: boolean
+      arrivals?: CheckpointArrival[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Assigning a role takes it from whoever held it; null clears the participant's role
+  'session:set-role': (
+    data: { sessionId: string; participantId: string; role: RideRole | null },
+    callback: (response: { success: boolean; error?: string; code?: ErrorCode }) => void
+  ) => void
+
+  // Messaging
+  // Acknowledged once the server has routed the message. delivered is false when a
+  // direct message's recipient has no connected socket right now.
+  'message:send': (
+    data: {
+      sessionId: string
+      toId?: string
+      content: string
+      type: 'direct' | 'broadcast'
+    },
+    callback: (response: {
+      success: boolean
+      message?: Message
+      delivered?: boolean
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Emergency
+  // Raising again while the rider's alert is still open updates its location
+  'sos:raised': (
+    data: { sessionId: string; location: Location; trigger?: SosTrigger },
+    callback: (response: {
+      success: boolean
+      sos?: SosAlert
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'sos:acknowledged': (
+    data: { sosId: string },
+    callback: (response: {
+      success: boolean
+      sos?: SosAlert
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Open alerts the manager should see: those of sessions they run and escalated ones
+  'sos:list': (
+    data: {},
+    callback: (response: {
+      success: boolean
+      alerts?: SosAlert[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+
+  // Quick alerts of the manager's organization, in display order
+  'alert:list': (
+    data: {},
+    callback: (response: {
+      success: boolean
+      alerts?: QuickAlert[]
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Sends a quick alert as a message, to one participant or without toId to everyone.
+  // Acknowledged like message:send.
+  'alert:send': (
+    data: { sessionId: string; alertId: string; toId?: string },
+    callback: (response: {
+      success: boolean
+      message?: Message
+      delivered?: boolean
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  // Newest first. Without a conversation ID every message the participant can see is
+  // returned; pass the oldest message ID received as before to page further back.
+  // readState is only included with the first page.
+  'message:history': (
+    data: { sessionId: string; conversationId?: string; before?: string; limit?: number },
+    callback: (response: {
+      success: boolean
+      messages?: Message[]
+      hasMore?: boolean
+      readState?: MessageReadState
+      error?: string
+      code?: ErrorCode
+    }) => void
+  ) => void
+  'message:read': (
+    data: { sessionId: string; conversationId: string; lastReadAt: number },
+    callback: (response: { success: boolean; error?: string; code?: ErrorCode }) => void
+  ) => void
+}
+
+// Acknowledgement payload of a client event that takes a callback
+export type EventResponse<E extends keyof ClientToServerEvents> = ClientToServerEvents[E] extends (
+  data: any,
+  callback: (response: infer R) => void
+) => void
+  ? R
+  : never
@@ -0,0 +1,55 @@
+import path from 'path'
+import { config } from 'dotenv'
+import { DatabaseService } from '../services/DatabaseService'
+import { AuthService } from '../services/AuthService'
+import { OrganizationService } from '../services/OrganizationService'
+
+// Load environment variables from .env file in project root
+config({ path: path.join(__dirname, '../../../.env') })
+
+const DEFAULT_ORGANIZATION = 'Default Organization'
+const USAGE =
+  'Usage: npm run manager:create -- <username> <display name> <password> [organization name]'
+
+// Creates an admin account, creating the organization too if it does not exist yet.
+// Further managers are usually invited by an admin from the dashboard.
+async function main() {
+  const [username, name, password, organizationName = DEFAULT_ORGANIZATION] = process.argv.slice(2)
+
+  if (!username || !name || !password) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  if (password.length < 8) {
+    console.error('❌ Password must be at least 8 characters long')
+    process.exit(1)
+  }
+
+  const databaseService = DatabaseService.getInstance()
+
+  try {
+    await databaseService.connect()
+    const authService = new AuthService()
+    const organization = await new OrganizationService(authService).findOrCreateOrganization(
+      organizationName
+    )
+    const manager = await authService.createManager(
+      username,
+      name,
+      password,
+      organization.id,
+      'admin'
+    )
+    console.log(
+      `✅ Admin "${manager.username}" created with ID ${manager.id} in "${organization.name}"`
+    )
+  } catch (error) {
+    console.error('❌ Failed to create manager:', error)
+    process.exitCode = 1
+  } finally {
+    await databaseService.disconnect()
+  }
+}
+
+main()
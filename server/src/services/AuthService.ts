@@ -0,0 +1,199 @@
+import { PrismaClient } from '@prisma/client'
+import bcrypt from 'bcryptjs'
+import jwt from 'jsonwebtoken'
+import { Manager, ManagerRole, ManagerTokenPayload, ParticipantTokenPayload } from '../types'
+import { DatabaseService } from './DatabaseService'
+
+const BCRYPT_ROUNDS = 12
+const DEFAULT_TOKEN_TTL = '12h'
+// Matches how long the client keeps a joined session in localStorage
+const PARTICIPANT_TOKEN_TTL = '24h'
+// Valid bcrypt hash of a throwaway password, compared against for unknown usernames
+const DUMMY_PASSWORD_HASH = '$2a$12$OmKYdfqzM087qJGCqHcZrexXaYZfA/pG1NwZrH63pl/dav7BlmB7u'
+
+export class AuthService {
+  private prisma: PrismaClient
+  private secret: string
+  private tokenTtl: string
+
+  constructor() {
+    this.prisma = DatabaseService.getInstance().getClient()
+
+    if (!process.env.JWT_SECRET && process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET must be set in production')
+    }
+    if (!process.env.JWT_SECRET) {
+      console.warn('⚠️ JWT_SECRET not set - using an insecure development secret')
+    }
+
+    this.secret = process.env.JWT_SECRET || 'ridemapper-development-secret'
+    this.tokenTtl = process.env.JWT_TTL || DEFAULT_TOKEN_TTL
+  }
+
+  async createManager(
+    username: string,
+    name: string,
+    password: string,
+    organizationId: string,
+    role: ManagerRole = 'manager'
+  ): Promise<Manager> {
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS)
+
+    const managerData = await this.prisma.manager.create({
+      data: {
+        organizationId,
+        username: this.normalizeUsername(username),
+        name,
+        passwordHash,
+        role: role === 'admin' ? 'ADMIN' : 'MANAGER',
+      },
+    })
+
+    return this.mapPrismaManagerToManager(managerData)
+  }
+
+  async login(
+    username: string,
+    password: string
+  ): Promise<{ success: boolean; token?: string; manager?: Manager; error?: string }> {
+    try {
+      const managerData = await this.prisma.manager.findUnique({
+        where: { username: this.normalizeUsername(username) },
+      })
+
+      // Compare against a dummy hash when the account is unknown so that
+      // response timing does not reveal which usernames exist
+      const passwordMatches = await bcrypt.compare(
+        password,
+        managerData?.passwordHash || DUMMY_PASSWORD_HASH
+      )
+
+      if (!managerData || !passwordMatches) {
+        return { success: false, error: 'Invalid username or password' }
+      }
+
+      await this.prisma.manager.update({
+        where: { id: managerData.id },
+        data: { lastLoginAt: new Date() },
+      })
+
+      const token = this.signManagerToken(managerData.id, managerData.tokenVersion)
+      return { success: true, token, manager: this.mapPrismaManagerToManager(managerData) }
+    } catch (error) {
+      console.error('Error logging in manager:', error)
+      return { success: false, error: 'Failed to log in' }
+    }
+  }
+
+  async logout(managerId: string): Promise<boolean> {
+    try {
+      // Bumping the version invalidates every token issued so far
+      await this.prisma.manager.update({
+        where: { id: managerId },
+        data: { tokenVersion: { increment: 1 } },
+      })
+      return true
+    } catch (error) {
+      console.error('Error logging out manager:', error)
+      return false
+    }
+  }
+
+  async verifyManagerToken(token: string): Promise<Manager | null> {
+    let payload: ManagerTokenPayload
+    try {
+      payload = jwt.verify(token, this.secret) as ManagerTokenPayload
+    } catch {
+      return null
+    }
+
+    if (payload.type !== 'manager' || !payload.sub) {
+      return null
+    }
+
+    try {
+      const managerData = await this.prisma.manager.findUnique({
+        where: { id: payload.sub },
+      })
+
+      if (!managerData || managerData.tokenVersion !== payload.ver) {
+        return null
+      }
+
+      return this.mapPrismaManagerToManager(managerData)
+    } catch (error) {
+      console.error('Error verifying manager token:', error)
+      return null
+    }
+  }
+
+  async getManager(managerId: string): Promise<Manager | null> {
+    try {
+      const managerData = await this.prisma.manager.findUnique({
+        where: { id: managerId },
+      })
+
+      return managerData ? this.mapPrismaManagerToManager(managerData) : null
+    } catch (error) {
+      console.error('Error getting manager:', error)
+      return null
+    }
+  }
+
+  async listManagers(organizationId: string): Promise<Manager[]> {
+    try {
+      const managersData = await this.prisma.manager.findMany({
+        where: { organizationId },
+        orderBy: { createdAt: 'asc' },
+      })
+
+      return managersData.map((managerData: any) => this.mapPrismaManagerToManager(managerData))
+    } catch (error) {
+      console.error('Error listing managers:', error)
+      return []
+    }
+  }
+
+  signParticipantToken(sessionId: string, participantId: string): string {
+    const payload: ParticipantTokenPayload = {
+      sub: participantId,
+      sid: sessionId,
+      type: 'participant',
+    }
+    return jwt.sign(payload, this.secret, { expiresIn: PARTICIPANT_TOKEN_TTL })
+  }
+
+  // Checks the signature only - whether the participant is still in an active
+  // session is up to the SessionManager
+  decodeParticipantToken(token: string): { sessionId: string; participantId: string } | null {
+    try {
+      const payload = jwt.verify(token, this.secret) as ParticipantTokenPayload
+      if (payload.type !== 'participant' || !payload.sub || !payload.sid) {
+        return null
+      }
+      return { sessionId: payload.sid, participantId: payload.sub }
+    } catch {
+      return null
+    }
+  }
+
+  private signManagerToken(managerId: string, tokenVersion: number): string {
+    const payload: ManagerTokenPayload = { sub: managerId, type: 'manager', ver: tokenVersion }
+    return jwt.sign(payload, this.secret, { expiresIn: this.tokenTtl } as jwt.SignOptions)
+  }
+
+  private normalizeUsername(username: string): string {
+    return username.trim().toLowerCase()
+  }
+
+  private mapPrismaManagerToManager(prismaManager: any): Manager {
+    return {
+      id: prismaManager.id,
+      organizationId: prismaManager.organizationId,
+      username: prismaManager.username,
+      name: prismaManager.name,
+      role: prismaManager.role === 'ADMIN' ? 'admin' : 'manager',
+      createdAt: prismaManager.createdAt.getTime(),
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { PrismaClient } from '@prisma/client'
+import { distanceMeters } from '../geo'
+import { CheckpointArrival, DEFAULT_CHECKPOINT_RADIUS, Participant, Route } from '../types'
+import { DatabaseService } from './DatabaseService'
+
+// Records riders checking in at the checkpoints and regroup points of their session's
+// route. Only the first arrival at each point counts.
+export class CheckpointService {
+  private prisma: PrismaClient
+  // Check-ins already stored per session, so location updates rarely touch the database
+  private arrived: Map<string, Promise<Set<string>>> = new Map()
+
+  constructor() {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  // Call after each position update; returns the check-ins it produced
+  async recordArrivals(
+    sessionId: string,
+    route: Route | undefined,
+    participant: Participant
+  ): Promise<CheckpointArrival[]> {
+    const location = participant.location
+    if (!route || !location || participant.isManager) {
+      return []
+    }
+
+    const reached = route.points
+      .map((point, pointIndex) => ({ point, pointIndex }))
+      .filter(
+        ({ point }) =>
+          (point.type === 'checkpoint' || point.type === 'regroup') &&
+          distanceMeters(location, point) <= (point.radius ?? DEFAULT_CHECKPOINT_RADIUS)
+      )
+    if (reached.length === 0) {
+      return []
+    }
+
+    // Claimed before writing, so overlapping updates cannot record an arrival twice
+    const arrived = await this.getArrived(sessionId)
+    const arrivals: CheckpointArrival[] = []
+    for (const { pointIndex } of reached) {
+      const key = this.key(route.id, pointIndex, participant.id)
+      if (!arrived.has(key)) {
+        arrived.add(key)
+        arrivals.push({
+          sessionId,
+          routeId: route.id,
+          pointIndex,
+          participantId: participant.id,
+          participantName: participant.name,
+          arrivedAt: location.timestamp,
+        })
+      }
+    }
+    if (arrivals.length === 0) {
+      return []
+    }
+
+    await this.prisma.checkpointArrival.createMany({
+      data: arrivals.map((arrival) => ({ ...arrival, arrivedAt: new Date(arrival.arrivedAt) })),
+      skipDuplicates: true,
+    })
+    return arrivals
+  }
+
+  async listArrivals(sessionId: string, routeId: string): Promise<CheckpointArrival[]> {
+    const rows = await this.prisma.checkpointArrival.findMany({
+      where: { sessionId, routeId },
+      orderBy: { arrivedAt: 'asc' },
+    })
+    return rows.map((row: any) => this.mapPrismaArrivalToArrival(row))
+  }
+
+  // Call when a session ends
+  forget(sessionId: string): void {
+    this.arrived.delete(sessionId)
+  }
+
+  private getArrived(sessionId: string): Promise<Set<string>> {
+    const cached = this.arrived.get(sessionId)
+    if (cached) {
+      return cached
+    }
+
+    const arrived: Promise<Set<string>> = this.prisma.checkpointArrival
+      .findMany({
+        where: { sessionId },
+        select: { routeId: true, pointIndex: true, participantId: true },
+      })
+      .then(
+        (rows: any[]) =>
+          new Set(rows.map((row) => this.key(row.routeId, row.pointIndex, row.participantId)))
+      )
+    // A failed load is retried on the next update rather than cached
+    arrived.catch(() => this.arrived.delete(sessionId))
+    this.arrived.set(sessionId, arrived)
+    return arrived
+  }
+
+  private key(routeId: string, pointIndex: number, participantId: string): string {
+    return `${routeId}:${pointIndex}:${participantId}`
+  }
+
+  private mapPrismaArrivalToArrival(arrivalData: any): CheckpointArrival {
+    return {
+      sessionId: arrivalData.sessionId,
+      routeId: arrivalData.routeId,
+      pointIndex: arrivalData.pointIndex,
+      participantId: arrivalData.participantId,
+      participantName: arrivalData.participantName,
+      arrivedAt: arrivalData.arrivedAt.getTime(),
+    }
+  }
+}
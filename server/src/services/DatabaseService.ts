@@ -51,20 +51,25 @@ export class DatabaseService {
     }
   }
 
-  // Cleanup method for graceful shutdown
-  public async cleanup(): Promise<void> {
-    // Delete inactive sessions older than 24 hours
+  // Delete sessions left active for over 24 hours, and ended sessions once they are
+  // older than endedRetentionMs
+  public async cleanup(endedRetentionMs: number): Promise<void> {
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000)
+    const endedBefore = new Date(Date.now() - endedRetentionMs)
 
     try {
       const result = await this.prisma.session.deleteMany({
         where: {
-          OR: [{ isActive: false }, { createdAt: { lt: twentyFourHoursAgo } }],
+          OR: [
+            { isActive: true, createdAt: { lt: twentyFourHoursAgo } },
+            { isActive: false, endsAt: { lt: endedBefore } },
+            { isActive: false, endsAt: null, updatedAt: { lt: endedBefore } },
+          ],
         },
       })
 
       if (result.count > 0) {
-        console.log(`🧹 Cleaned up ${result.count} inactive sessions`)
+        console.log(`🧹 Cleaned up ${result.count} expired sessions`)
       }
     } catch (error) {
       console.error('❌ Cleanup failed:', error)
@@ -0,0 +1,230 @@
+import { PrismaClient } from '@prisma/client'
+import { LocationHistoryPolicy } from '../config'
+import { Location, LocationTrack } from '../types'
+import { DatabaseService } from './DatabaseService'
+
+// Most samples one history query returns by default; the newest are kept
+const MAX_HISTORY_SAMPLES = 20_000
+// Samples read per query when a whole ride is read
+const HISTORY_PAGE_SIZE = 10_000
+// Samples held back while the database is unreachable; the oldest are dropped first
+const MAX_PENDING_SAMPLES = 50_000
+// Writes a sample is retried in while the database is reachable before it is dropped
+const MAX_WRITE_ATTEMPTS = 3
+
+interface PendingSample {
+  sessionId: string
+  participantId: string
+  location: Location
+  attempts: number
+}
+
+// Keeps every position participants report. Updates arrive several times a second
+// across a busy server, so they are queued and written in batches.
+export class LocationHistoryService {
+  private prisma: PrismaClient
+  private pending: PendingSample[] = []
+  // The write in progress; the next one waits for it
+  private writing: Promise<void> = Promise.resolve()
+  private flushTimer: NodeJS.Timeout | null = null
+
+  constructor(private policy: LocationHistoryPolicy) {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  start(): void {
+    this.flushTimer = setInterval(() => this.flush(), this.policy.flushIntervalMs)
+  }
+
+  // Writes what is still queued, for shutdown
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+    await this.flush()
+  }
+
+  record(sessionId: string, participantId: string, location: Location): void {
+    this.pending.push({ sessionId, participantId, location, attempts: 0 })
+    if (this.pending.length >= this.policy.batchSize) {
+      this.flush()
+    }
+  }
+
+  // Resolves once everything queued so far is written (or given up on)
+  flush(): Promise<void> {
+    this.writing = this.writing.then(() => this.writePending())
+    return this.writing
+  }
+
+  async getTracks(
+    sessionId: string,
+    options: { participantId?: string; since?: number; until?: number; limit?: number } = {}
+  ): Promise<LocationTrack[]> {
+    // Include the positions still waiting to be written
+    await this.flush()
+
+    const rows = await this.prisma.locationSample.findMany({
+      where: {
+        sessionId,
+        participantId: options.participantId,
+        timestamp: {
+          gte: options.since !== undefined ? new Date(options.since) : undefined,
+          lte: options.until !== undefined ? new Date(options.until) : undefined,
+        },
+      },
+      orderBy: { timestamp: 'desc' },
+      take: options.limit ?? MAX_HISTORY_SAMPLES,
+    })
+
+    const tracks = new Map<string, LocationTrack>()
+    this.addToTracks(tracks, rows.reverse())
+    return Array.from(tracks.values())
+  }
+
+  // Every recorded position, however long the ride was, read a page at a time. For
+  // reports and exports, which must not leave out the start of a long ride.
+  async getCompleteTracks(sessionId: string, participantId?: string): Promise<LocationTrack[]> {
+    await this.flush()
+
+    const tracks = new Map<string, LocationTrack>()
+    let cursor: string | undefined
+    for (;;) {
+      const rows = await this.prisma.locationSample.findMany({
+        where: { sessionId, participantId },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: HISTORY_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      })
+      this.addToTracks(tracks, rows)
+      if (rows.length < HISTORY_PAGE_SIZE) {
+        return Array.from(tracks.values())
+      }
+      cursor = rows[rows.length - 1].id
+    }
+  }
+
+  // Delete positions older than the retention period
+  async purgeExpired(): Promise<void> {
+    try {
+      const result = await this.prisma.locationSample.deleteMany({
+        where: { recordedAt: { lt: new Date(Date.now() - this.policy.retentionMs) } },
+      })
+      if (result.count > 0) {
+        console.log(`🧹 Deleted ${result.count} expired location samples`)
+      }
+    } catch (error) {
+      console.error('❌ Location history purge failed:', error)
+    }
+  }
+
+  private async writePending(): Promise<void> {
+    const batch = this.pending.splice(0, this.pending.length)
+    if (batch.length === 0) {
+      return
+    }
+
+    try {
+      await this.writeSamples(batch)
+      return
+    } catch (error) {
+      console.error(`❌ Failed to write ${batch.length} location samples:`, error)
+    }
+
+    // Nothing can be written until the database is back; hold everything until then
+    if (!(await DatabaseService.getInstance().healthCheck())) {
+      this.pending = [...batch, ...this.pending].slice(-MAX_PENDING_SAMPLES)
+      return
+    }
+
+    // One bad sample fails the whole batch, so write each session's samples on their
+    // own and, where that fails too, one at a time. Only what still fails is retried.
+    const failed: PendingSample[] = []
+    for (const samples of this.groupBySession(batch)) {
+      failed.push(...(await this.writeSessionSamples(samples)))
+    }
+    if (failed.length > 0) {
+      console.error(`❌ ${failed.length} location samples could not be written`)
+    }
+    const retry = failed
+      .map((sample) => ({ ...sample, attempts: sample.attempts + 1 }))
+      .filter((sample) => sample.attempts < MAX_WRITE_ATTEMPTS)
+    this.pending = [...retry, ...this.pending].slice(-MAX_PENDING_SAMPLES)
+  }
+
+  // Returns the samples that could not be written
+  private async writeSessionSamples(samples: PendingSample[]): Promise<PendingSample[]> {
+    try {
+      await this.writeSamples(samples)
+      return []
+    } catch {
+      // Positions of a session deleted in the meantime can never be written
+      const sessionCount = await this.prisma.session
+        .count({ where: { id: samples[0].sessionId } })
+        .catch(() => 1)
+      if (sessionCount === 0) {
+        return []
+      }
+    }
+
+    const failed: PendingSample[] = []
+    for (const sample of samples) {
+      try {
+        await this.writeSamples([sample])
+      } catch {
+        failed.push(sample)
+      }
+    }
+    return failed
+  }
+
+  private async writeSamples(samples: PendingSample[]): Promise<void> {
+    await this.prisma.locationSample.createMany({
+      data: samples.map(({ sessionId, participantId, location }) => ({
+        sessionId,
+        participantId,
+        lat: location.lat,
+        lng: location.lng,
+        accuracy: location.accuracy,
+        speed: location.speed,
+        timestamp: new Date(location.timestamp),
+      })),
+    })
+  }
+
+  private groupBySession(samples: PendingSample[]): PendingSample[][] {
+    const groups = new Map<string, PendingSample[]>()
+    for (const sample of samples) {
+      const group = groups.get(sample.sessionId)
+      if (group) {
+        group.push(sample)
+      } else {
+        groups.set(sample.sessionId, [sample])
+      }
+    }
+    return Array.from(groups.values())
+  }
+
+  // Appends rows, oldest first, to their participants' tracks
+  private addToTracks(tracks: Map<string, LocationTrack>, rows: any[]): void {
+    for (const row of rows) {
+      let track = tracks.get(row.participantId)
+      if (!track) {
+        track = { participantId: row.participantId, points: [] }
+        tracks.set(row.participantId, track)
+      }
+      track.points.push(this.mapPrismaSampleToLocation(row))
+    }
+  }
+
+  private mapPrismaSampleToLocation(sampleData: any): Location {
+    return {
+      lat: sampleData.lat,
+      lng: sampleData.lng,
+      timestamp: sampleData.timestamp.getTime(),
+      accuracy: sampleData.accuracy ?? undefined,
+      speed: sampleData.speed ?? undefined,
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { PrismaClient } from '@prisma/client'
+import { AlertPriority, BROADCAST_CONVERSATION, Message, MessageReadState } from '../types'
+import { DatabaseService } from './DatabaseService'
+
+export class MessageService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  async saveMessage(
+    sessionId: string,
+    fromId: string,
+    data: {
+      toId?: string
+      content: string
+      type: 'direct' | 'broadcast'
+      priority?: AlertPriority
+    }
+  ): Promise<Message> {
+    const messageData = await this.prisma.message.create({
+      data: {
+        sessionId,
+        fromId,
+        toId: data.type === 'direct' ? data.toId : null,
+        content: data.content,
+        type: data.type === 'direct' ? 'DIRECT' : 'BROADCAST',
+        priority: data.priority ? data.priority.toUpperCase() : null,
+      },
+    })
+
+    return this.mapPrismaMessageToMessage(messageData)
+  }
+
+  // Messages the participant can see, newest first. Ordering by ID as well keeps pages
+  // stable when several messages share a timestamp.
+  async getHistory(
+    sessionId: string,
+    participantId: string,
+    options: { conversationId?: string; before?: string; limit: number }
+  ): Promise<{ messages: Message[]; hasMore: boolean }> {
+    const rows = await this.prisma.message.findMany({
+      where: {
+        sessionId,
+        ...this.conversationFilter(participantId, options.conversationId),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: options.limit + 1,
+      ...(options.before && { cursor: { id: options.before }, skip: 1 }),
+    })
+
+    return {
+      messages: rows.slice(0, options.limit).map((row: any) => this.mapPrismaMessageToMessage(row)),
+      hasMore: rows.length > options.limit,
+    }
+  }
+
+  // Every message the participant could see, oldest first, for replays
+  async getTimeline(sessionId: string, participantId: string): Promise<Message[]> {
+    const rows = await this.prisma.message.findMany({
+      where: { sessionId, ...this.conversationFilter(participantId) },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    })
+    return rows.map((row: any) => this.mapPrismaMessageToMessage(row))
+  }
+
+  async getReadState(sessionId: string, participantId: string): Promise<MessageReadState> {
+    const [ownReads, peerReads, incoming] = await Promise.all([
+      this.prisma.messageRead.findMany({ where: { sessionId, readerId: participantId } }),
+      this.prisma.messageRead.findMany({ where: { sessionId, conversationId: participantId } }),
+      // A ride produces a few hundred messages at most, so unread counts are tallied here
+      // rather than with one count query per conversation
+      this.prisma.message.findMany({
+        where: {
+          sessionId,
+          fromId: { not: participantId },
+          OR: [{ type: 'BROADCAST' }, { toId: participantId }],
+        },
+        select: { fromId: true, type: true, createdAt: true },
+      }),
+    ])
+
+    const lastRead: Record<string, number> = {}
+    for (const read of ownReads) {
+      lastRead[read.conversationId] = read.lastReadAt.getTime()
+    }
+
+    const readByPeer: Record<string, number> = {}
+    for (const read of peerReads) {
+      readByPeer[read.readerId] = read.lastReadAt.getTime()
+    }
+
+    const unread: Record<string, number> = {}
+    for (const message of incoming) {
+      const conversationId = message.type === 'BROADCAST' ? BROADCAST_CONVERSATION : message.fromId
+      if (message.createdAt.getTime() > (lastRead[conversationId] ?? 0)) {
+        unread[conversationId] = (unread[conversationId] || 0) + 1
+      }
+    }
+
+    return { lastRead, unread, readByPeer }
+  }
+
+  // Read positions only move forward, so a stale tab cannot mark messages unread again.
+  // Returns the position now stored.
+  async markRead(
+    sessionId: string,
+    readerId: string,
+    conversationId: string,
+    lastReadAt: number
+  ): Promise<number> {
+    const key = { sessionId, readerId, conversationId }
+    const existing = await this.prisma.messageRead.findUnique({
+      where: { sessionId_readerId_conversationId: key },
+    })
+    if (existing && existing.lastReadAt.getTime() >= lastReadAt) {
+      return existing.lastReadAt.getTime()
+    }
+
+    await this.prisma.messageRead.upsert({
+      where: { sessionId_readerId_conversationId: key },
+      create: { ...key, lastReadAt: new Date(lastReadAt) },
+      update: { lastReadAt: new Date(lastReadAt) },
+    })
+    return lastReadAt
+  }
+
+  private conversationFilter(participantId: string, conversationId?: string) {
+    if (conversationId === undefined) {
+      return { OR: [{ type: 'BROADCAST' }, { fromId: participantId }, { toId: participantId }] }
+    }
+    if (conversationId === BROADCAST_CONVERSATION) {
+      return { type: 'BROADCAST' }
+    }
+    return {
+      type: 'DIRECT',
+      OR: [
+        { fromId: participantId, toId: conversationId },
+        { fromId: conversationId, toId: participantId },
+      ],
+    }
+  }
+
+  private mapPrismaMessageToMessage(messageData: any): Message {
+    return {
+      id: messageData.id,
+      sessionId: messageData.sessionId,
+      fromId: messageData.fromId,
+      toId: messageData.toId || undefined,
+      content: messageData.content,
+      timestamp: messageData.createdAt.getTime(),
+      type: messageData.type === 'DIRECT' ? 'direct' : 'broadcast',
+      ...(messageData.priority && {
+        priority: messageData.priority.toLowerCase() as AlertPriority,
+      }),
+    }
+  }
+}
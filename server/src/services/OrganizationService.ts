@@ -0,0 +1,269 @@
+import { PrismaClient } from '@prisma/client'
+import { createHash, randomBytes } from 'crypto'
+import {
+  AlertPriority,
+  Manager,
+  ManagerInvite,
+  ManagerRole,
+  Organization,
+  QuickAlert,
+} from '../types'
+import { DatabaseService } from './DatabaseService'
+import { AuthService } from './AuthService'
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+// Quick alerts an organization starts with until an admin edits them
+const DEFAULT_QUICK_ALERTS: { label: string; priority: AlertPriority }[] = [
+  { label: 'Regroup at next stop', priority: 'normal' },
+  { label: 'Slow down', priority: 'normal' },
+  { label: 'Water break soon', priority: 'low' },
+  { label: 'Hazard ahead', priority: 'high' },
+  { label: 'Stop now', priority: 'high' },
+  { label: 'Ride cancelled', priority: 'high' },
+]
+
+export class OrganizationService {
+  private prisma: PrismaClient
+  private authService: AuthService
+
+  constructor(authService: AuthService) {
+    this.prisma = DatabaseService.getInstance().getClient()
+    this.authService = authService
+  }
+
+  async getOrganization(organizationId: string): Promise<Organization | null> {
+    try {
+      const organizationData = await this.prisma.organization.findUnique({
+        where: { id: organizationId },
+      })
+
+      return organizationData ? this.mapPrismaOrganizationToOrganization(organizationData) : null
+    } catch (error) {
+      console.error('Error getting organization:', error)
+      return null
+    }
+  }
+
+  // Used when bootstrapping accounts from the command line
+  async findOrCreateOrganization(name: string): Promise<Organization> {
+    const organizationData = await this.prisma.organization.upsert({
+      where: { name: name.trim() },
+      update: {},
+      create: { name: name.trim() },
+    })
+
+    return this.mapPrismaOrganizationToOrganization(organizationData)
+  }
+
+  // Creates a single-use invite. The plain token is returned once and only its hash is stored.
+  async createInvite(
+    organizationId: string,
+    invitedBy: string,
+    role: ManagerRole = 'manager'
+  ): Promise<{ invite: ManagerInvite; token: string }> {
+    const token = randomBytes(24).toString('base64url')
+
+    const inviteData = await this.prisma.managerInvite.create({
+      data: {
+        organizationId,
+        tokenHash: this.hashToken(token),
+        role: role === 'admin' ? 'ADMIN' : 'MANAGER',
+        invitedBy,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      },
+    })
+
+    return { invite: this.mapPrismaInviteToInvite(inviteData), token }
+  }
+
+  async listPendingInvites(organizationId: string): Promise<ManagerInvite[]> {
+    try {
+      const invitesData = await this.prisma.managerInvite.findMany({
+        where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return invitesData.map((inviteData: any) => this.mapPrismaInviteToInvite(inviteData))
+    } catch (error) {
+      console.error('Error listing invites:', error)
+      return []
+    }
+  }
+
+  async revokeInvite(organizationId: string, inviteId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.managerInvite.deleteMany({
+        where: { id: inviteId, organizationId, acceptedAt: null },
+      })
+      return result.count > 0
+    } catch (error) {
+      console.error('Error revoking invite:', error)
+      return false
+    }
+  }
+
+  // Creates the invited manager's account in the inviting organization
+  async acceptInvite(
+    token: string,
+    username: string,
+    name: string,
+    password: string
+  ): Promise<{ success: boolean; manager?: Manager; error?: string }> {
+    try {
+      const inviteData = await this.prisma.managerInvite.findUnique({
+        where: { tokenHash: this.hashToken(token) },
+      })
+
+      if (!inviteData || inviteData.acceptedAt || inviteData.expiresAt.getTime() < Date.now()) {
+        return { success: false, error: 'Invite is invalid or has expired' }
+      }
+
+      // Claim the invite first so it cannot be redeemed twice
+      const claimed = await this.prisma.managerInvite.updateMany({
+        where: { id: inviteData.id, acceptedAt: null },
+        data: { acceptedAt: new Date() },
+      })
+      if (claimed.count === 0) {
+        return { success: false, error: 'Invite is invalid or has expired' }
+      }
+
+      try {
+        const manager = await this.authService.createManager(
+          username,
+          name,
+          password,
+          inviteData.organizationId,
+          this.mapPrismaRole(inviteData.role)
+        )
+        return { success: true, manager }
+      } catch (error) {
+        // Release the invite so it can be used with a different username
+        await this.prisma.managerInvite.update({
+          where: { id: inviteData.id },
+          data: { acceptedAt: null },
+        })
+
+        if ((error as { code?: string }).code === 'P2002') {
+          return { success: false, error: 'Username is already taken' }
+        }
+        throw error
+      }
+    } catch (error) {
+      console.error('Error accepting invite:', error)
+      return { success: false, error: 'Failed to accept invite' }
+    }
+  }
+
+  // An organization without alerts gets the defaults, so there is always something to send
+  async listQuickAlerts(organizationId: string): Promise<QuickAlert[]> {
+    let alertData = await this.prisma.quickAlert.findMany({
+      where: { organizationId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    if (alertData.length === 0) {
+      alertData = await this.prisma.$transaction(async (tx: any) => {
+        // Locking the organization makes concurrent first listings wait for each other,
+        // so only the first one seeds the defaults
+        await tx.$queryRaw`SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE`
+        if ((await tx.quickAlert.count({ where: { organizationId } })) === 0) {
+          await tx.quickAlert.createMany({
+            data: DEFAULT_QUICK_ALERTS.map((alert, position) => ({
+              organizationId,
+              label: alert.label,
+              priority: this.toPrismaPriority(alert.priority),
+              position,
+            })),
+          })
+        }
+        return tx.quickAlert.findMany({
+          where: { organizationId },
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        })
+      })
+    }
+
+    return alertData.map((alert: any) => this.mapPrismaQuickAlertToQuickAlert(alert))
+  }
+
+  async getQuickAlert(organizationId: string, alertId: string): Promise<QuickAlert | null> {
+    const alertData = await this.prisma.quickAlert.findFirst({
+      where: { id: alertId, organizationId },
+    })
+    return alertData ? this.mapPrismaQuickAlertToQuickAlert(alertData) : null
+  }
+
+  // Replaces the organization's alerts with the given list. Entries carrying the ID of an
+  // existing alert update it in place, alerts missing from the list are deleted.
+  async saveQuickAlerts(
+    organizationId: string,
+    alerts: { id?: string; label: string; priority: AlertPriority }[]
+  ): Promise<QuickAlert[]> {
+    const existing = await this.prisma.quickAlert.findMany({
+      where: { organizationId },
+      select: { id: true },
+    })
+    const existingIds = new Set(existing.map((alert: { id: string }) => alert.id))
+    const keptIds = alerts
+      .map((alert) => alert.id)
+      .filter((id): id is string => id !== undefined && existingIds.has(id))
+
+    await this.prisma.$transaction([
+      this.prisma.quickAlert.deleteMany({
+        where: { organizationId, id: { notIn: keptIds } },
+      }),
+      ...alerts.map((alert, position) => {
+        const data = {
+          label: alert.label,
+          priority: this.toPrismaPriority(alert.priority),
+          position,
+        }
+        return alert.id && existingIds.has(alert.id)
+          ? this.prisma.quickAlert.update({ where: { id: alert.id }, data })
+          : this.prisma.quickAlert.create({ data: { ...data, organizationId } })
+      }),
+    ])
+
+    return this.listQuickAlerts(organizationId)
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  private mapPrismaRole(role: string): ManagerRole {
+    return role === 'ADMIN' ? 'admin' : 'manager'
+  }
+
+  private mapPrismaOrganizationToOrganization(prismaOrganization: any): Organization {
+    return {
+      id: prismaOrganization.id,
+      name: prismaOrganization.name,
+      createdAt: prismaOrganization.createdAt.getTime(),
+    }
+  }
+
+  private mapPrismaInviteToInvite(prismaInvite: any): ManagerInvite {
+    return {
+      id: prismaInvite.id,
+      organizationId: prismaInvite.organizationId,
+      role: this.mapPrismaRole(prismaInvite.role),
+      invitedBy: prismaInvite.invitedBy,
+      expiresAt: prismaInvite.expiresAt.getTime(),
+      createdAt: prismaInvite.createdAt.getTime(),
+    }
+  }
+
+  private toPrismaPriority(priority: AlertPriority): string {
+    return priority.toUpperCase()
+  }
+
+  private mapPrismaQuickAlertToQuickAlert(prismaAlert: any): QuickAlert {
+    return {
+      id: prismaAlert.id,
+      label: prismaAlert.label,
+      priority: prismaAlert.priority.toLowerCase() as AlertPriority,
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// Which sockets belong to which session participant. A participant can be connected
+// through several sockets (a manager with two tabs) and a manager is a participant of
+// every session they run, so entries are keyed by session and participant together.
+export class PresenceTracker {
+  private socketBindings: Map<string, { sessionId: string; participantId: string }> = new Map()
+  private participantSockets: Map<string, Set<string>> = new Map()
+  private offlineTimers: Map<string, NodeJS.Timeout> = new Map()
+
+  // onOffline runs once a participant has had no socket for the whole grace period,
+  // so brief drops such as a page reload or a tunnel do not flicker their status
+  constructor(
+    private offlineGraceMs: number,
+    private onOffline: (sessionId: string, participantId: string) => void
+  ) {}
+
+  attach(socketId: string, sessionId: string, participantId: string): void {
+    this.detach(socketId)
+
+    const key = this.key(sessionId, participantId)
+    this.socketBindings.set(socketId, { sessionId, participantId })
+    const sockets = this.participantSockets.get(key) || new Set<string>()
+    sockets.add(socketId)
+    this.participantSockets.set(key, sockets)
+
+    const timer = this.offlineTimers.get(key)
+    if (timer) {
+      clearTimeout(timer)
+      this.offlineTimers.delete(key)
+    }
+  }
+
+  // Call when a socket disconnects or stops acting for its participant
+  detach(socketId: string): void {
+    const binding = this.socketBindings.get(socketId)
+    if (!binding) {
+      return
+    }
+    this.socketBindings.delete(socketId)
+
+    const key = this.key(binding.sessionId, binding.participantId)
+    const sockets = this.participantSockets.get(key)
+    sockets?.delete(socketId)
+    if (sockets && sockets.size > 0) {
+      return
+    }
+
+    this.participantSockets.delete(key)
+    this.offlineTimers.set(
+      key,
+      setTimeout(() => {
+        this.offlineTimers.delete(key)
+        this.onOffline(binding.sessionId, binding.participantId)
+      }, this.offlineGraceMs)
+    )
+  }
+
+  getSocketIds(sessionId: string, participantId: string): string[] {
+    return Array.from(this.participantSockets.get(this.key(sessionId, participantId)) || [])
+  }
+
+  isConnected(sessionId: string, participantId: string): boolean {
+    return this.participantSockets.has(this.key(sessionId, participantId))
+  }
+
+  private key(sessionId: string, participantId: string): string {
+    return `${sessionId}:${participantId}`
+  }
+}
@@ -0,0 +1,114 @@
+import { PrismaClient } from '@prisma/client'
+import { ErrorCode, ReplayEvent, RoutePoint, SessionReplay, SessionSummary } from '../types'
+import { DatabaseService } from './DatabaseService'
+import { LocationHistoryService } from './LocationHistoryService'
+import { MessageService } from './MessageService'
+
+// Ended sessions one listing returns
+const MAX_LISTED_SESSIONS = 50
+// Most recorded positions one replay carries, about three hours of a 30-rider group
+// reporting every few seconds
+const MAX_REPLAY_SAMPLES = 100_000
+
+// Puts ended sessions back together from what was recorded while they ran: the
+// roster, every position, the route changes and the messages.
+export class ReplayService {
+  private prisma: PrismaClient
+
+  constructor(
+    private messageService: MessageService,
+    private locationHistory: LocationHistoryService
+  ) {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  async listEndedSessions(organizationId: string): Promise<SessionSummary[]> {
+    const rows = await this.prisma.session.findMany({
+      where: { organizationId, isActive: false },
+      include: {
+        route: { select: { name: true } },
+        _count: { select: { participants: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_LISTED_SESSIONS,
+    })
+    return rows.map((row: any) => this.mapPrismaSessionToSummary(row))
+  }
+
+  // Direct messages are only included when the requesting manager sent or received them
+  async getReplay(
+    sessionId: string,
+    viewer: { managerId: string; organizationId: string }
+  ): Promise<{ success: boolean; replay?: SessionReplay; error?: string; code?: ErrorCode }> {
+    const sessionData = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        route: true,
+        participants: { orderBy: { joinedAt: 'asc' } },
+        routeChanges: { orderBy: { changedAt: 'asc' } },
+        _count: { select: { participants: true } },
+      },
+    })
+
+    // Sessions of other organizations are reported as not found
+    if (!sessionData || sessionData.organizationId !== viewer.organizationId) {
+      return { success: false, error: 'Session not found', code: 'NOT_FOUND' }
+    }
+    if (sessionData.isActive) {
+      return { success: false, error: 'Session has not ended yet', code: 'CONFLICT' }
+    }
+
+    const [tracks, messages] = await Promise.all([
+      this.locationHistory.getTracks(sessionId, { limit: MAX_REPLAY_SAMPLES }),
+      this.messageService.getTimeline(sessionId, viewer.managerId),
+    ])
+
+    const routeEvents: ReplayEvent[] = sessionData.routeChanges.map((change: any) => ({
+      type: 'route',
+      timestamp: change.changedAt.getTime(),
+      points: change.points as RoutePoint[],
+      path: change.path ?? undefined,
+    }))
+    // Sessions started before route changes were recorded only know their last route
+    if (routeEvents.length === 0 && sessionData.route) {
+      routeEvents.push({
+        type: 'route',
+        timestamp: sessionData.createdAt.getTime(),
+        points: sessionData.route.points as RoutePoint[],
+        path: sessionData.route.path ?? undefined,
+      })
+    }
+
+    const messageEvents: ReplayEvent[] = messages.map((message) => ({
+      type: 'message',
+      timestamp: message.timestamp,
+      message,
+    }))
+
+    return {
+      success: true,
+      replay: {
+        session: this.mapPrismaSessionToSummary(sessionData),
+        participants: sessionData.participants.map((participant: any) => ({
+          id: participant.participantId,
+          name: participant.name,
+          isManager: participant.isManager,
+        })),
+        tracks,
+        events: [...routeEvents, ...messageEvents].sort((a, b) => a.timestamp - b.timestamp),
+      },
+    }
+  }
+
+  private mapPrismaSessionToSummary(sessionData: any): SessionSummary {
+    return {
+      id: sessionData.id,
+      pin: sessionData.pin,
+      managerName: sessionData.managerName,
+      routeName: sessionData.route?.name,
+      createdAt: sessionData.createdAt.getTime(),
+      endedAt: (sessionData.endsAt ?? sessionData.updatedAt).getTime(),
+      participantCount: sessionData._count.participants,
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import { PrismaClient } from '@prisma/client'
+import { distanceMeters } from '../geo'
+import { ErrorCode, Location, RiderReport, RoutePoint, SessionReport } from '../types'
+import { DatabaseService } from './DatabaseService'
+import { LocationHistoryService } from './LocationHistoryService'
+
+// Slower than this counts as standing still
+const MIN_MOVING_SPEED = 1 // m/s
+// Faster than this is a GPS glitch rather than riding
+const MAX_PLAUSIBLE_SPEED = 50 // m/s
+// Standing still for at least this long counts as a stop
+const MIN_STOP_MS = 60 * 1000
+// Positions less accurate than this are left out, so GPS jitter does not add distance
+const MAX_ACCURACY_M = 50
+// Speeds between positions closer in time than this are too noisy for the max speed
+const MIN_SPEED_SEGMENT_MS = 5000
+
+// Movement figures of one participant's recorded positions
+type TrackSummary = Pick<
+  RiderReport,
+  'distance' | 'movingTime' | 'maxSpeed' | 'stopCount' | 'stoppedTime' | 'longestStop'
+>
+
+// Post-ride reports. One is generated when a session ends and kept with the session;
+// sessions that ended before reports existed get theirs on first request.
+export class ReportService {
+  private prisma: PrismaClient
+
+  constructor(private locationHistory: LocationHistoryService) {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  async generate(sessionId: string): Promise<SessionReport> {
+    const sessionData = await this.prisma.session.findUniqueOrThrow({
+      where: { id: sessionId },
+      include: { route: true, participants: { orderBy: { joinedAt: 'asc' } } },
+    })
+
+    const [arrivals, messageCounts] = await Promise.all([
+      sessionData.routeId
+        ? this.prisma.checkpointArrival.findMany({
+            where: { sessionId, routeId: sessionData.routeId },
+            select: { participantId: true },
+          })
+        : [],
+      this.prisma.message.groupBy({ by: ['fromId'], where: { sessionId }, _count: true }),
+    ])
+
+    const checkpointsReached = new Map<string, number>()
+    for (const arrival of arrivals) {
+      checkpointsReached.set(
+        arrival.participantId,
+        (checkpointsReached.get(arrival.participantId) || 0) + 1
+      )
+    }
+    const messagesSent = new Map<string, number>(
+      messageCounts.map((count: any) => [count.fromId, count._count])
+    )
+
+    // Read one participant at a time, so a long ride's positions are never all in memory
+    const summaries = new Map<string, TrackSummary>()
+    for (const participant of sessionData.participants) {
+      const [track] = await this.locationHistory.getCompleteTracks(
+        sessionId,
+        participant.participantId
+      )
+      summaries.set(participant.participantId, this.summarizeTrack(track?.points ?? []))
+    }
+
+    const routePoints: RoutePoint[] = (sessionData.route?.points as RoutePoint[]) ?? []
+    const report: SessionReport = {
+      sessionId,
+      pin: sessionData.pin,
+      managerName: sessionData.managerName,
+      routeName: sessionData.route?.name,
+      startedAt: sessionData.createdAt.getTime(),
+      endedAt: (sessionData.endsAt ?? sessionData.updatedAt).getTime(),
+      checkpointCount: routePoints.filter(
+        (point) => point.type === 'checkpoint' || point.type === 'regroup'
+      ).length,
+      riders: sessionData.participants.map((participant: any) => {
+        const summary = summaries.get(participant.participantId)!
+        return {
+          participantId: participant.participantId,
+          name: participant.name,
+          isManager: participant.isManager,
+          ...summary,
+          averageSpeed: summary.movingTime > 0 ? summary.distance / (summary.movingTime / 1000) : 0,
+          checkpointsReached: checkpointsReached.get(participant.participantId) || 0,
+          messagesSent: messagesSent.get(participant.participantId) || 0,
+        }
+      }),
+      generatedAt: Date.now(),
+    }
+
+    await this.prisma.sessionReport.upsert({
+      where: { sessionId },
+      create: { sessionId, data: report as any, generatedAt: new Date(report.generatedAt) },
+      update: { data: report as any, generatedAt: new Date(report.generatedAt) },
+    })
+    return report
+  }
+
+  // Reports of other organizations' sessions are reported as not found
+  async getReport(
+    sessionId: string,
+    organizationId: string
+  ): Promise<{ success: boolean; report?: SessionReport; error?: string; code?: ErrorCode }> {
+    const sessionData = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { report: true },
+    })
+
+    if (!sessionData || sessionData.organizationId !== organizationId) {
+      return { success: false, error: 'Session not found', code: 'NOT_FOUND' }
+    }
+    if (sessionData.isActive) {
+      return { success: false, error: 'Session has not ended yet', code: 'CONFLICT' }
+    }
+
+    const report = sessionData.report
+      ? (sessionData.report.data as SessionReport)
+      : await this.generate(sessionId)
+    return { success: true, report }
+  }
+
+  // One row per participant, for spreadsheets
+  toCsv(report: SessionReport): string {
+    const header = [
+      'Participant',
+      'Role',
+      'Distance (km)',
+      'Moving time (min)',
+      'Average speed (km/h)',
+      'Max speed (km/h)',
+      'Stops',
+      'Stopped time (min)',
+      'Longest stop (min)',
+      `Checkpoints reached (of ${report.checkpointCount})`,
+      'Messages sent',
+    ]
+    const rows = report.riders.map((rider) => [
+      rider.name,
+      rider.isManager ? 'Manager' : 'Rider',
+      (rider.distance / 1000).toFixed(2),
+      (rider.movingTime / 60000).toFixed(1),
+      (rider.averageSpeed * 3.6).toFixed(1),
+      (rider.maxSpeed * 3.6).toFixed(1),
+      String(rider.stopCount),
+      (rider.stoppedTime / 60000).toFixed(1),
+      (rider.longestStop / 60000).toFixed(1),
+      String(rider.checkpointsReached),
+      String(rider.messagesSent),
+    ])
+    return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+  }
+
+  // A standalone page meant for printing. Times are shown in timeZone, falling back to
+  // UTC when it is not a valid IANA zone.
+  toHtml(report: SessionReport, timeZone?: string): string {
+    const formatTime = this.timeFormatter(timeZone)
+    const title = `Ride report: ${report.routeName || 'No route'}`
+
+    const rows = report.riders
+      .map((rider) => {
+        const role = rider.isManager ? ' <span class="muted">(manager)</span>' : ''
+        const stops =
+          rider.stopCount > 0
+            ? ` <span class="muted">(${formatDuration(rider.stoppedTime)}, longest ` +
+              `${formatDuration(rider.longestStop)})</span>`
+            : ''
+        return `
+        <tr>
+          <td>${escapeHtml(rider.name)}${role}</td>
+          <td>${(rider.distance / 1000).toFixed(1)} km</td>
+          <td>${formatDuration(rider.movingTime)}</td>
+          <td>${Math.round(rider.averageSpeed * 3.6)} km/h</td>
+          <td>${Math.round(rider.maxSpeed * 3.6)} km/h</td>
+          <td>${rider.stopCount}${stops}</td>
+          <td>${rider.checkpointsReached} / ${report.checkpointCount}</td>
+          <td>${rider.messagesSent}</td>
+        </tr>`
+      })
+      .join('')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #222; margin: 32px; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    .muted { color: #777; }
+    dl { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+    dt { color: #777; }
+    dd { margin: 0; }
+    table { border-collapse: collapse; width: 100%; margin-top: 24px; font-size: 13px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+    th { background: #f4f4f8; }
+    tr { page-break-inside: avoid; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <dl>
+    <dt>Started</dt><dd>${formatTime(report.startedAt)}</dd>
+    <dt>Ended</dt><dd>${formatTime(report.endedAt)}</dd>
+    <dt>Duration</dt><dd>${formatDuration(report.endedAt - report.startedAt)}</dd>
+    <dt>Led by</dt><dd>${escapeHtml(report.managerName)}</dd>
+    <dt>Session PIN</dt><dd>${escapeHtml(report.pin)}</dd>
+    <dt>Participants</dt><dd>${report.riders.length}</dd>
+  </dl>
+  <table>
+    <thead>
+      <tr>
+        <th>Participant</th>
+        <th>Distance</th>
+        <th>Moving time</th>
+        <th>Avg speed</th>
+        <th>Max speed</th>
+        <th>Stops</th>
+        <th>Checkpoints</th>
+        <th>Messages</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <p class="muted">Generated ${formatTime(
+    report.generatedAt
+  )}. Stops are standstills of a minute or more.</p>
+</body>
+</html>
+`
+  }
+
+  // Distance, moving time and stops of one participant's positions, oldest first
+  private summarizeTrack(points: Location[]): TrackSummary {
+    const summary: TrackSummary = {
+      distance: 0,
+      movingTime: 0,
+      maxSpeed: 0,
+      stopCount: 0,
+      stoppedTime: 0,
+      longestStop: 0,
+    }
+    const usable = points.filter(
+      (point) => point.accuracy === undefined || point.accuracy <= MAX_ACCURACY_M
+    )
+
+    let stillSince: number | null = null
+    const endStop = (at: number) => {
+      if (stillSince === null) return
+      const length = at - stillSince
+      if (length >= MIN_STOP_MS) {
+        summary.stopCount++
+        summary.stoppedTime += length
+        summary.longestStop = Math.max(summary.longestStop, length)
+      }
+      stillSince = null
+    }
+
+    let previous = usable[0]
+    for (const point of usable.slice(1)) {
+      const elapsed = point.timestamp - previous.timestamp
+      if (elapsed <= 0) continue
+
+      const distance = distanceMeters(previous, point)
+      const speed = distance / (elapsed / 1000)
+      if (speed > MAX_PLAUSIBLE_SPEED) {
+        // Skip the glitch and measure the next position from the last good one
+        continue
+      }
+
+      if (speed >= MIN_MOVING_SPEED) {
+        endStop(previous.timestamp)
+        summary.distance += distance
+        summary.movingTime += elapsed
+        if (elapsed >= MIN_SPEED_SEGMENT_MS) {
+          summary.maxSpeed = Math.max(summary.maxSpeed, speed)
+        }
+      } else if (stillSince === null) {
+        stillSince = previous.timestamp
+      }
+      previous = point
+    }
+    if (previous) {
+      endStop(previous.timestamp)
+    }
+
+    // Devices measure speed better than positions a few seconds apart do
+    for (const point of usable) {
+      if (point.speed !== undefined && point.speed <= MAX_PLAUSIBLE_SPEED) {
+        summary.maxSpeed = Math.max(summary.maxSpeed, point.speed)
+      }
+    }
+
+    summary.distance = Math.round(summary.distance)
+    return summary
+  }
+
+  private timeFormatter(timeZone?: string): (timestamp: number) => string {
+    const options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+    let format: Intl.DateTimeFormat
+    try {
+      format = new Intl.DateTimeFormat('en-GB', { ...options, timeZone: timeZone || 'UTC' })
+    } catch {
+      format = new Intl.DateTimeFormat('en-GB', { ...options, timeZone: 'UTC' })
+    }
+    return (timestamp) => format.format(new Date(timestamp))
+  }
+}
+
+// "1 h 05 min", "12 min"
+function formatDuration(milliseconds: number): string {
+  const minutes = Math.round(milliseconds / 60000)
+  return minutes < 60
+    ? `${minutes} min`
+    : `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Quotes fields that need it, and defuses names a spreadsheet would run as formulas
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
@@ -0,0 +1,310 @@
+import { decodePolyline, distanceMeters, LatLng, locateOnPath, slicePath } from '../geo'
+import { GroupSpreadPolicy, OffRoutePolicy, RiderProgressPolicy } from '../config'
+import { GroupSpread, Location, Participant, RiderProgress, Route } from '../types'
+
+// Below this a rider counts as stopped, which also absorbs GPS drift while standing still
+const MIN_MOVING_SPEED = 1 // m/s
+// A rider's next position is looked for this far behind where they last were along the
+// route, and as far ahead as this speed could take them since, so loops and
+// out-and-back legs do not swap their progress between the legs
+const PROGRESS_WINDOW_BEHIND = 200 // m
+const PROGRESS_WINDOW_AHEAD = 1000 // m
+const MAX_RIDING_SPEED = 25 // m/s
+
+// A route's line with what is measured along it
+interface RouteLine {
+  routeId: string
+  updatedAt: number
+  path: LatLng[]
+  length: number
+  checkpoints: { pointIndex: number; along: number }[] // Checkpoints and regroup points
+}
+
+export type RouteAdherenceChange = 'off-route' | 'back-on-route'
+
+// Compares riders' positions with their session's route. A rider is flagged off-route
+// once they have stayed beyond the policy distance for the whole policy time, so a
+// detour around a parked car or a poor GPS fix does not alert anyone. The group's
+// spread is measured along the route between the lead, the sweep and the last rider,
+// and each rider's progress from how far along it they are and how fast they move.
+export class RouteMonitor {
+  // When each rider was first seen too far from the route, keyed by session and participant
+  private awaySince: Map<string, number> = new Map()
+  // Each session's decoded route line, recomputed when the route changes
+  private lines: Map<string, RouteLine> = new Map()
+  // When each session's spread was last measured, to throttle updates
+  private spreadSent: Map<string, number> = new Map()
+  // Each rider's recent positions for their speed, and when their progress was last sent
+  private samples: Map<string, Location[]> = new Map()
+  private progressSent: Map<string, number> = new Map()
+  // Where each rider last was along their session's route line
+  private progressAlong: Map<string, { line: RouteLine; along: number; timestamp: number }> =
+    new Map()
+
+  constructor(
+    private policy: OffRoutePolicy,
+    private spreadPolicy: GroupSpreadPolicy,
+    private progressPolicy: RiderProgressPolicy
+  ) {}
+
+  // Call after each position update. Sets or clears participant.offRoute and returns
+  // the change, if any, so the caller can tell the session.
+  check(
+    sessionId: string,
+    route: Route | undefined,
+    participant: Participant
+  ): RouteAdherenceChange | null {
+    const key = `${sessionId}:${participant.id}`
+    const path = route ? this.getLine(sessionId, route).path : []
+    if (participant.isManager || !participant.location || path.length === 0) {
+      this.awaySince.delete(key)
+      return null
+    }
+
+    const distance = Math.round(locateOnPath(participant.location, path)!.distance)
+    const now = participant.location.timestamp
+
+    if (distance <= this.policy.distanceMeters) {
+      this.awaySince.delete(key)
+      if (participant.offRoute) {
+        participant.offRoute = undefined
+        return 'back-on-route'
+      }
+      return null
+    }
+
+    if (participant.offRoute) {
+      participant.offRoute.distance = distance
+      return null
+    }
+
+    const since = this.awaySince.get(key) ?? now
+    this.awaySince.set(key, since)
+    if (now - since < this.policy.afterMs) {
+      return null
+    }
+
+    participant.offRoute = { distance, since }
+    return 'off-route'
+  }
+
+  // Call when a participant leaves or their session ends
+  forget(sessionId: string, participantId?: string): void {
+    const riderMaps = [this.awaySince, this.samples, this.progressSent, this.progressAlong]
+    if (participantId) {
+      riderMaps.forEach((map) => map.delete(`${sessionId}:${participantId}`))
+      return
+    }
+
+    this.lines.delete(sessionId)
+    this.spreadSent.delete(sessionId)
+    for (const map of riderMaps) {
+      for (const key of map.keys()) {
+        if (key.startsWith(`${sessionId}:`)) {
+          map.delete(key)
+        }
+      }
+    }
+  }
+
+  // Call after each position update. Sets participant.progress and returns it when it
+  // is due to be sent, once per update interval for each rider. Managers only have
+  // progress when they ride as lead or sweep.
+  measureProgress(
+    sessionId: string,
+    route: Route | undefined,
+    participant: Participant
+  ): RiderProgress | null {
+    const key = `${sessionId}:${participant.id}`
+    const location = participant.location
+    const line = route ? this.getLine(sessionId, route) : null
+    if (
+      !location ||
+      !line ||
+      line.path.length === 0 ||
+      (participant.isManager && !participant.role)
+    ) {
+      this.samples.delete(key)
+      this.progressSent.delete(key)
+      this.progressAlong.delete(key)
+      participant.progress = undefined
+      return null
+    }
+
+    const speed = this.measureSpeed(key, location)
+    const now = Date.now()
+    const sentAt = this.progressSent.get(key)
+    if (sentAt !== undefined && now - sentAt < this.progressPolicy.updateIntervalMs) {
+      return null
+    }
+    this.progressSent.set(key, now)
+
+    const covered = this.locateAlongRoute(key, location, line)
+    const arrivalAfter = (distance: number): number | undefined =>
+      speed > 0 ? Math.round(location.timestamp + (distance / speed) * 1000) : undefined
+    const next = line.checkpoints.find((checkpoint) => checkpoint.along > covered)
+    const remaining = Math.max(0, line.length - covered)
+
+    participant.progress = {
+      covered: Math.round(covered),
+      remaining: Math.round(remaining),
+      speed: Math.round(speed * 10) / 10,
+      nextCheckpoint: next && {
+        pointIndex: next.pointIndex,
+        distance: Math.round(next.along - covered),
+        eta: arrivalAfter(next.along - covered),
+      },
+      eta: arrivalAfter(remaining),
+      updatedAt: location.timestamp,
+    }
+    return participant.progress
+  }
+
+  // The group's spread, when it is due to be sent: right away when forced, otherwise
+  // once per update interval. Null while the session has no route or neither a lead
+  // nor a sweep.
+  measureSpread(
+    sessionId: string,
+    route: Route | undefined,
+    participants: Participant[],
+    force = false
+  ): GroupSpread | null {
+    const line = route ? this.getLine(sessionId, route) : null
+    const path = line ? line.path : []
+    const lead = participants.find((participant) => participant.role === 'lead')
+    const sweep = participants.find((participant) => participant.role === 'sweep')
+    if (path.length === 0 || (!lead && !sweep)) {
+      this.spreadSent.delete(sessionId)
+      return null
+    }
+
+    const now = Date.now()
+    const sentAt = this.spreadSent.get(sessionId)
+    if (!force && sentAt !== undefined && now - sentAt < this.spreadPolicy.updateIntervalMs) {
+      return null
+    }
+    this.spreadSent.set(sessionId, now)
+
+    // Where each rider in the group is along the route. Managers only count when they
+    // ride as lead or sweep; riders who are offline or off the route are left out.
+    // Each is looked for near where their progress was last measured, so riders keep
+    // to the leg they are on where the route passes the same place twice.
+    const along = new Map<string, number>()
+    for (const participant of participants) {
+      const inGroup = !participant.isManager || participant.role
+      if (inGroup && participant.location && participant.isOnline && !participant.offRoute) {
+        const measured = this.progressAlong.get(`${sessionId}:${participant.id}`)
+        const near = measured && measured.line === line ? measured.along : undefined
+        along.set(participant.id, locateOnPath(participant.location, path, { near })!.along)
+      }
+    }
+
+    const leadAlong = lead && along.get(lead.id)
+    const sweepAlong = sweep && along.get(sweep.id)
+    const spread: GroupSpread = {
+      sessionId,
+      maxGap: this.spreadPolicy.maxGapMeters,
+      exceeded: false,
+      band: [],
+    }
+
+    if (leadAlong !== undefined && sweepAlong !== undefined) {
+      spread.leadToSweep = Math.round(Math.abs(leadAlong - sweepAlong))
+    }
+    if (sweepAlong !== undefined) {
+      let last: { id: string; along: number } | null = null
+      for (const [id, position] of along) {
+        if (id !== lead?.id && position < sweepAlong && (!last || position < last.along)) {
+          last = { id, along: position }
+        }
+      }
+      spread.sweepToLast = last ? Math.round(sweepAlong - last.along) : 0
+      spread.lastRiderId = last?.id
+    }
+    spread.exceeded =
+      (spread.leadToSweep ?? 0) > this.spreadPolicy.maxGapMeters ||
+      (spread.sweepToLast ?? 0) > this.spreadPolicy.maxGapMeters
+
+    if (along.size > 1) {
+      const positions = Array.from(along.values())
+      spread.band = slicePath(path, Math.min(...positions), Math.max(...positions))
+    }
+    return spread
+  }
+
+  // How far along the route a rider is, searched around where they last were. The whole
+  // route is only searched when nothing near enough turns up there, such as for their
+  // first position or after they rejoin it elsewhere. Where it passes them twice, the
+  // pass nearer the start wins; off the route, simply the nearest point does.
+  private locateAlongRoute(key: string, location: Location, line: RouteLine): number {
+    const last = this.progressAlong.get(key)
+    let found: { distance: number; along: number } | null = null
+    if (last && last.line === line) {
+      const seconds = Math.max(0, location.timestamp - last.timestamp) / 1000
+      found = locateOnPath(location, line.path, {
+        from: last.along - PROGRESS_WINDOW_BEHIND,
+        to: last.along + PROGRESS_WINDOW_AHEAD + MAX_RIDING_SPEED * seconds,
+        near: last.along,
+      })
+    }
+    if (!found || found.distance > this.policy.distanceMeters) {
+      found = locateOnPath(location, line.path, { near: 0 })!
+    }
+    if (found.distance > this.policy.distanceMeters) {
+      found = locateOnPath(location, line.path)!
+    }
+
+    this.progressAlong.set(key, { line, along: found.along, timestamp: location.timestamp })
+    return found.along
+  }
+
+  // Speed over the samples within the speed window. Taken from the straight distance
+  // between the oldest and newest sample, so GPS jitter does not add up.
+  private measureSpeed(key: string, location: Location): number {
+    const samples = (this.samples.get(key) ?? []).filter(
+      (sample) =>
+        sample.timestamp < location.timestamp &&
+        location.timestamp - sample.timestamp <= this.progressPolicy.speedWindowMs
+    )
+    samples.push(location)
+    this.samples.set(key, samples)
+    if (samples.length < 2) {
+      return 0
+    }
+
+    const seconds = (location.timestamp - samples[0].timestamp) / 1000
+    const speed = distanceMeters(samples[0], location) / seconds
+    return speed >= MIN_MOVING_SPEED ? speed : 0
+  }
+
+  // The computed road geometry when the route has one, otherwise straight lines
+  // between its points
+  private getLine(sessionId: string, route: Route): RouteLine {
+    const cached = this.lines.get(sessionId)
+    if (cached && cached.routeId === route.id && cached.updatedAt === route.updatedAt) {
+      return cached
+    }
+
+    const decoded = route.path ? decodePolyline(route.path) : []
+    const path = decoded.length >= 2 ? decoded : route.points
+    let length = 0
+    for (let i = 1; i < path.length; i++) {
+      length += distanceMeters(path[i - 1], path[i])
+    }
+    // The line passes the route's points in order, so each is looked for beyond the one
+    // before it; a point on a return leg is not placed on the way out
+    const checkpoints: RouteLine['checkpoints'] = []
+    let pointAlong = 0
+    route.points.forEach((point, pointIndex) => {
+      pointAlong = (locateOnPath(point, path, { from: pointAlong }) ?? locateOnPath(point, path)!)
+        .along
+      if (point.type === 'checkpoint' || point.type === 'regroup') {
+        checkpoints.push({ pointIndex, along: pointAlong })
+      }
+    })
+
+    const line = { routeId: route.id, updatedAt: route.updatedAt, path, length, checkpoints }
+    this.lines.set(sessionId, line)
+    return line
+  }
+}
@@ -1,7 +1,14 @@
 import { PrismaClient } from '@prisma/client'
-import { Route, RoutePoint } from '../types'
+import { ErrorCode, Route, RouteAccessor, RoutePoint, RouteVisibility } from '../types'
 import { DatabaseService } from './DatabaseService'
 
+// Relations needed to map a route row, including who it is shared with
+export const ROUTE_INCLUDE = {
+  shares: { select: { managerId: true } },
+}
+
+type RouteResult = { success: boolean; route?: Route; error?: string; code?: ErrorCode }
+
 export class RouteService {
   private prisma: PrismaClient
 
@@ -12,20 +19,38 @@ export class RouteService {
   async createRoute(
     name: string,
     points: RoutePoint[],
-    createdBy: string,
-    description?: string,
-    isTemplate: boolean = true,
-    distance?: number
+    owner: RouteAccessor,
+    options: {
+      description?: string
+      isTemplate?: boolean
+      distance?: number
+      path?: string
+      visibility?: RouteVisibility
+      sharedWith?: string[]
+    } = {}
   ): Promise<Route> {
+    const visibility = options.visibility || 'organization'
+    const sharedWith =
+      visibility === 'shared'
+        ? await this.filterOrganizationManagers(owner.organizationId, options.sharedWith || [])
+        : []
+
     const routeData = await this.prisma.route.create({
       data: {
         name,
-        description,
+        description: options.description,
         points: points as any, // Prisma Json type
-        createdBy,
-        isTemplate,
-        distance,
+        createdBy: owner.managerId,
+        organizationId: owner.organizationId,
+        isTemplate: options.isTemplate ?? true,
+        distance: options.distance,
+        path: options.path,
+        visibility: this.toPrismaVisibility(visibility),
+        shares: {
+          create: sharedWith.map((managerId) => ({ managerId })),
+        },
       },
+      include: ROUTE_INCLUDE,
     })
 
     return this.mapPrismaRouteToRoute(routeData)
@@ -33,53 +58,92 @@ export class RouteService {
 
   async updateRoute(
     routeId: string,
-    updatedBy: string,
+    accessor: RouteAccessor,
     updates: {
       name?: string
       description?: string
       points?: RoutePoint[]
       distance?: number
+      path?: string
+      visibility?: RouteVisibility
+      sharedWith?: string[]
     }
-  ): Promise<Route | null> {
+  ): Promise<RouteResult> {
     try {
-      // Verify the route exists and the user has permission to update it
-      const existingRoute = await this.prisma.route.findUnique({
-        where: { id: routeId },
-      })
+      const existingRoute = await this.findRoute(routeId, accessor.organizationId)
+      if (!existingRoute || !this.canView(existingRoute, accessor)) {
+        return { success: false, error: 'Route not found', code: 'NOT_FOUND' }
+      }
 
-      if (!existingRoute) {
-        return null
+      if (!this.canEdit(existingRoute, accessor)) {
+        return {
+          success: false,
+          error: 'You do not have permission to edit this route',
+          code: 'FORBIDDEN',
+        }
+      }
+
+      const changesSharing = updates.visibility !== undefined || updates.sharedWith !== undefined
+      if (changesSharing && !this.canManage(existingRoute, accessor)) {
+        return {
+          success: false,
+          error: "Only the route's owner or an organization admin can change who can access it",
+          code: 'FORBIDDEN',
+        }
       }
 
-      // For now, allow updates by creator or any user
-      // In the future, you might want to add more sophisticated permission checks
+      const visibility = updates.visibility || existingRoute.visibility
+      let shares: any
+      if (changesSharing) {
+        const sharedWith =
+          visibility === 'shared'
+            ? await this.filterOrganizationManagers(
+                accessor.organizationId,
+                updates.sharedWith ?? existingRoute.sharedWith
+              )
+            : []
+        shares = {
+          deleteMany: {},
+          create: sharedWith.map((managerId) => ({ managerId })),
+        }
+      }
 
       const routeData = await this.prisma.route.update({
         where: { id: routeId },
         data: {
           ...(updates.name && { name: updates.name }),
           ...(updates.description !== undefined && { description: updates.description }),
-          ...(updates.points && { points: updates.points as any }),
+          // The road geometry belongs to the points it was computed for
+          ...(updates.points && { points: updates.points as any, path: updates.path ?? null }),
           ...(updates.distance !== undefined && { distance: updates.distance }),
+          ...(changesSharing && { visibility: this.toPrismaVisibility(visibility), shares }),
         },
+        include: ROUTE_INCLUDE,
       })
 
-      return this.mapPrismaRouteToRoute(routeData)
+      return { success: true, route: this.mapPrismaRouteToRoute(routeData) }
     } catch (error) {
       console.error('Error updating route:', error)
-      return null
+      return { success: false, error: 'Failed to update route', code: 'INTERNAL_ERROR' }
     }
   }
 
-  async deleteRoute(routeId: string, deletedBy: string): Promise<boolean> {
+  async deleteRoute(
+    routeId: string,
+    accessor: RouteAccessor
+  ): Promise<{ success: boolean; error?: string; code?: ErrorCode }> {
     try {
-      // Verify the route exists
-      const existingRoute = await this.prisma.route.findUnique({
-        where: { id: routeId },
-      })
+      const existingRoute = await this.findRoute(routeId, accessor.organizationId)
+      if (!existingRoute || !this.canView(existingRoute, accessor)) {
+        return { success: false, error: 'Route not found', code: 'NOT_FOUND' }
+      }
 
-      if (!existingRoute) {
-        return false
+      if (!this.canManage(existingRoute, accessor)) {
+        return {
+          success: false,
+          error: "Only the route's owner or an organization admin can delete it",
+          code: 'FORBIDDEN',
+        }
       }
 
       // Check if route is being used in any active sessions
@@ -91,36 +155,51 @@ export class RouteService {
       })
 
       if (activeSessions > 0) {
-        throw new Error('Cannot delete route that is being used in active sessions')
+        return {
+          success: false,
+          error: 'Cannot delete route that is being used in active sessions',
+          code: 'CONFLICT',
+        }
       }
 
       await this.prisma.route.delete({
         where: { id: routeId },
       })
 
-      return true
+      return { success: true }
     } catch (error) {
       console.error('Error deleting route:', error)
-      return false
+      return { success: false, error: 'Failed to delete route', code: 'INTERNAL_ERROR' }
     }
   }
 
-  async getRoute(routeId: string): Promise<Route | null> {
+  // Routes the accessor may not see are reported as not found rather than forbidden,
+  // so their existence is not revealed
+  async getRoute(routeId: string, accessor: RouteAccessor): Promise<Route | null> {
     try {
-      const routeData = await this.prisma.route.findUnique({
-        where: { id: routeId },
-      })
-
-      return routeData ? this.mapPrismaRouteToRoute(routeData) : null
+      const route = await this.findRoute(routeId, accessor.organizationId)
+      return route && this.canView(route, accessor) ? route : null
     } catch (error) {
       console.error('Error getting route:', error)
       return null
     }
   }
 
-  async listRoutes(filters?: { createdBy?: string; templatesOnly?: boolean }): Promise<Route[]> {
+  async listRoutes(
+    accessor: RouteAccessor,
+    filters?: { createdBy?: string; templatesOnly?: boolean }
+  ): Promise<Route[]> {
     try {
-      const where: any = {}
+      const where: any = { organizationId: accessor.organizationId }
+
+      // Admins see every route of their organization
+      if (accessor.role !== 'admin') {
+        where.OR = [
+          { createdBy: accessor.managerId },
+          { visibility: 'ORGANIZATION' },
+          { visibility: 'SHARED', shares: { some: { managerId: accessor.managerId } } },
+        ]
+      }
 
       if (filters?.createdBy) {
         where.createdBy = filters.createdBy
@@ -132,12 +211,13 @@ export class RouteService {
 
       const routesData = await this.prisma.route.findMany({
         where,
+        include: ROUTE_INCLUDE,
         orderBy: {
           createdAt: 'desc',
         },
       })
 
-      return routesData.map(this.mapPrismaRouteToRoute)
+      return routesData.map((routeData: any) => this.mapPrismaRouteToRoute(routeData))
     } catch (error) {
       console.error('Error listing routes:', error)
       return []
@@ -147,36 +227,93 @@ export class RouteService {
   async duplicateRoute(
     routeId: string,
     newName: string,
-    createdBy: string,
+    owner: RouteAccessor,
     isTemplate: boolean = false
   ): Promise<Route | null> {
     try {
-      const originalRoute = await this.getRoute(routeId)
+      const originalRoute = await this.getRoute(routeId, owner)
       if (!originalRoute) {
         return null
       }
 
-      return await this.createRoute(
-        newName,
-        originalRoute.points,
-        createdBy,
-        originalRoute.description,
-        isTemplate
-      )
+      return await this.createRoute(newName, originalRoute.points, owner, {
+        description: originalRoute.description,
+        isTemplate,
+        distance: originalRoute.distance,
+        path: originalRoute.path,
+      })
     } catch (error) {
       console.error('Error duplicating route:', error)
       return null
     }
   }
 
-  private mapPrismaRouteToRoute(prismaRoute: any): Route {
+  // Owners and admins have full control; organization-wide routes are readable by every
+  // manager of the organization, shared routes are readable and editable by those named
+  canView(route: Route, accessor: RouteAccessor): boolean {
+    return (
+      this.canManage(route, accessor) ||
+      route.visibility === 'organization' ||
+      (route.visibility === 'shared' && route.sharedWith.includes(accessor.managerId))
+    )
+  }
+
+  canEdit(route: Route, accessor: RouteAccessor): boolean {
+    return (
+      this.canManage(route, accessor) ||
+      (route.visibility === 'shared' && route.sharedWith.includes(accessor.managerId))
+    )
+  }
+
+  private canManage(route: Route, accessor: RouteAccessor): boolean {
+    return (
+      route.organizationId === accessor.organizationId &&
+      (route.createdBy === accessor.managerId || accessor.role === 'admin')
+    )
+  }
+
+  private async findRoute(routeId: string, organizationId: string): Promise<Route | null> {
+    const routeData = await this.prisma.route.findFirst({
+      where: { id: routeId, organizationId },
+      include: ROUTE_INCLUDE,
+    })
+
+    return routeData ? this.mapPrismaRouteToRoute(routeData) : null
+  }
+
+  // Only managers of the same organization can be given access
+  private async filterOrganizationManagers(
+    organizationId: string,
+    managerIds: string[]
+  ): Promise<string[]> {
+    if (managerIds.length === 0) {
+      return []
+    }
+
+    const managers = await this.prisma.manager.findMany({
+      where: { id: { in: managerIds }, organizationId },
+      select: { id: true },
+    })
+
+    return managers.map((manager: { id: string }) => manager.id)
+  }
+
+  private toPrismaVisibility(visibility: RouteVisibility): string {
+    return visibility.toUpperCase()
+  }
+
+  mapPrismaRouteToRoute(prismaRoute: any): Route {
     return {
       id: prismaRoute.id,
       name: prismaRoute.name,
       description: prismaRoute.description,
       points: prismaRoute.points as RoutePoint[],
       distance: prismaRoute.distance,
+      path: prismaRoute.path || undefined,
       createdBy: prismaRoute.createdBy,
+      organizationId: prismaRoute.organizationId,
+      visibility: prismaRoute.visibility.toLowerCase() as RouteVisibility,
+      sharedWith: (prismaRoute.shares || []).map((share: { managerId: string }) => share.managerId),
       createdAt: prismaRoute.createdAt.getTime(),
       updatedAt: prismaRoute.updatedAt.getTime(),
       isTemplate: prismaRoute.isTemplate,
@@ -1,19 +1,40 @@
 import { PrismaClient } from '@prisma/client'
-import { Session, Participant, Route, RoutePoint, Message } from '../types'
+import {
+  Session,
+  Participant,
+  RideRole,
+  Route,
+  RoutePoint,
+  Message,
+  ErrorCode,
+  RouteAccessor,
+} from '../types'
 import { DatabaseService } from './DatabaseService'
-import { RouteService } from './RouteService'
+import { RouteService, ROUTE_INCLUDE } from './RouteService'
+import { AuthService } from './AuthService'
 import { v4 as uuidv4 } from 'uuid'
 
+// Random PINs tried before creating a session gives up
+const MAX_PIN_ATTEMPTS = 10
+
 export class SessionManager {
   private prisma: PrismaClient
   private routeService: RouteService
+  private authService: AuthService
   private activeSessions: Map<string, Session> = new Map() // In-memory cache for active sessions
   private sessionsByPin: Map<string, string> = new Map() // pin -> sessionId
-  private participantSessions: Map<string, string> = new Map() // participantId -> sessionId
-
-  constructor() {
+  // participantId -> sessionId for riders. Managers can run several sessions at once,
+  // so they are only tracked in each session's participants map.
+  private participantSessions: Map<string, string> = new Map()
+
+  // onSessionEnded runs once a session is marked ended, however it ended
+  constructor(
+    authService: AuthService,
+    private onSessionEnded: (sessionId: string) => void = () => {}
+  ) {
     this.prisma = DatabaseService.getInstance().getClient()
     this.routeService = new RouteService()
+    this.authService = authService
   }
 
   async initialize(): Promise<void> {
@@ -22,12 +43,18 @@ export class SessionManager {
       const activeSessions = await this.prisma.session.findMany({
         where: { isActive: true },
         include: {
-          route: true,
+          route: { include: ROUTE_INCLUDE },
           // Note: No participants loaded from DB - they're memory-only
         },
       })
 
       for (const sessionData of activeSessions) {
+        // Sessions already in memory are kept so the periodic reload does not drop
+        // their participants
+        if (this.activeSessions.has(sessionData.id)) {
+          continue
+        }
+
         const session = await this.mapPrismaSessionToSession(sessionData)
         this.activeSessions.set(session.id, session)
         this.sessionsByPin.set(session.pin, session.id)
@@ -41,42 +68,51 @@ export class SessionManager {
     }
   }
 
-  async createSession(managerName: string, routeId?: string): Promise<Session> {
-    // First, check if any active session already exists
-    const existingSession = await this.getAnyActiveSession()
-    if (existingSession) {
-      console.log(`Manager ${managerName} joined existing active session ${existingSession.pin}`)
-      return existingSession
-    }
+  async createSession(
+    manager: RouteAccessor & { managerName: string },
+    routeId?: string
+  ): Promise<Session> {
+    const { managerId, managerName, organizationId } = manager
 
-    // No active session exists, create a new one
+    // Every call creates a new session owned by this manager
     const sessionId = uuidv4()
-    const managerId = uuidv4()
-    const pin = this.generatePin()
 
     // Validate route if provided
     let route: Route | undefined
     if (routeId) {
-      const foundRoute = await this.routeService.getRoute(routeId)
+      const foundRoute = await this.routeService.getRoute(routeId, manager)
       if (!foundRoute) {
         throw new Error('Route not found')
       }
       route = foundRoute
     }
 
-    // Create session in database (without participants)
-    const sessionData = await this.prisma.session.create({
-      data: {
-        id: sessionId,
-        pin,
-        managerId,
-        managerName,
-        routeId: routeId || undefined,
-      },
-      include: {
-        route: true,
-      },
-    })
+    // Create session in database (without participants). Ended sessions keep their PIN
+    // until cleanup removes them, so a random PIN can already be taken.
+    let sessionData
+    for (let attempt = 1; ; attempt++) {
+      try {
+        sessionData = await this.prisma.session.create({
+          data: {
+            id: sessionId,
+            pin: this.generatePin(),
+            managerId,
+            managerName,
+            organizationId,
+            routeId: routeId || undefined,
+          },
+          include: {
+            route: { include: ROUTE_INCLUDE },
+          },
+        })
+        break
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'P2002' || attempt >= MAX_PIN_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+    const pin = sessionData.pin
 
     // Create session object with manager participant in memory only
     const participants = new Map<string, Participant>()
@@ -95,6 +131,7 @@ export class SessionManager {
       pin,
       managerId,
       managerName,
+      organizationId,
       routeId: routeId || undefined,
       route,
       participants,
@@ -107,7 +144,11 @@ export class SessionManager {
     // Cache in memory
     this.activeSessions.set(sessionId, session)
     this.sessionsByPin.set(pin, sessionId)
-    this.participantSessions.set(managerId, sessionId)
+
+    await this.recordParticipant(sessionId, managerParticipant)
+    if (route) {
+      await this.recordRouteChange(sessionId, route)
+    }
 
     console.log(`New session created: ${sessionId} with PIN: ${pin}`)
     return session
@@ -116,7 +157,13 @@ export class SessionManager {
   async joinSession(
     pin: string,
     participantName: string
-  ): Promise<{ success: boolean; session?: Session; participantId?: string; error?: string }> {
+  ): Promise<{
+    success: boolean
+    session?: Session
+    participantId?: string
+    participantToken?: string
+    error?: string
+  }> {
     const sessionId = this.sessionsByPin.get(pin)
     if (!sessionId) {
       return { success: false, error: 'Invalid PIN' }
@@ -142,9 +189,13 @@ export class SessionManager {
 
       session.participants.set(participantId, participant)
       this.participantSessions.set(participantId, sessionId)
+      await this.recordParticipant(sessionId, participant)
+
+      // Signed token the participant presents to rejoin or post location updates
+      const participantToken = this.authService.signParticipantToken(sessionId, participantId)
 
       console.log(`Participant ${participantName} joined session ${sessionId} (memory only)`)
-      return { success: true, session, participantId }
+      return { success: true, session, participantId, participantToken }
     } catch (error) {
       console.error('Error joining session:', error)
       return { success: false, error: 'Failed to join session' }
@@ -154,15 +205,17 @@ export class SessionManager {
   async joinAsManager(
     pin: string,
     managerName: string,
-    managerId: string
+    managerId: string,
+    organizationId: string
   ): Promise<{ success: boolean; session?: Session; participantId?: string; error?: string }> {
     const sessionId = this.sessionsByPin.get(pin)
     if (!sessionId) {
       return { success: false, error: 'Invalid PIN' }
     }
 
+    // Managers can only co-manage sessions of their own organization
     let session = this.activeSessions.get(sessionId)
-    if (!session || !session.isActive) {
+    if (!session || !session.isActive || session.organizationId !== organizationId) {
       return { success: false, error: 'Session not found or inactive' }
     }
 
@@ -178,7 +231,7 @@ export class SessionManager {
       }
 
       session.participants.set(managerId, participant)
-      this.participantSessions.set(managerId, sessionId)
+      await this.recordParticipant(sessionId, participant)
 
       console.log(`Manager ${managerName} joined session ${sessionId} (memory only)`)
       return { success: true, session, participantId: managerId }
@@ -189,13 +242,9 @@ export class SessionManager {
   }
 
   async leaveSession(
+    sessionId: string,
     participantId: string
   ): Promise<{ success: boolean; sessionId?: string; wasManager?: boolean }> {
-    const sessionId = this.participantSessions.get(participantId)
-    if (!sessionId) {
-      return { success: false }
-    }
-
     const session = this.activeSessions.get(sessionId)
     if (!session) {
       return { success: false }
@@ -251,6 +300,7 @@ export class SessionManager {
       this.activeSessions.delete(sessionId)
 
       console.log(`Session ${sessionId} ended`)
+      this.onSessionEnded(sessionId)
       return true
     } catch (error) {
       console.error('Error ending session:', error)
@@ -259,15 +309,11 @@ export class SessionManager {
   }
 
   async updateParticipantLocation(
+    sessionId: string,
     participantId: string,
     lat: number,
     lng: number
   ): Promise<{ success: boolean; sessionId?: string }> {
-    const sessionId = this.participantSessions.get(participantId)
-    if (!sessionId) {
-      return { success: false }
-    }
-
     const session = this.activeSessions.get(sessionId)
     if (!session || !session.isActive) {
       return { success: false }
@@ -289,17 +335,95 @@ export class SessionManager {
     return { success: true, sessionId }
   }
 
+  // Record whether a participant has a live connection. Returns the participant when
+  // their status changed, so the caller can tell the rest of the session.
+  setParticipantOnline(
+    sessionId: string,
+    participantId: string,
+    isOnline: boolean
+  ): Participant | null {
+    const participant = this.activeSessions.get(sessionId)?.participants.get(participantId)
+    if (!participant) {
+      return null
+    }
+
+    participant.lastSeen = Date.now()
+    if (participant.isOnline === isOnline) {
+      return null
+    }
+
+    participant.isOnline = isOnline
+    return participant
+  }
+
+  // Give a participant the lead or sweep role, taking it from whoever held it, or clear
+  // their role with null. Returns every participant whose role changed.
+  setParticipantRole(
+    sessionId: string,
+    participantId: string,
+    role: RideRole | null
+  ): Participant[] | null {
+    const session = this.activeSessions.get(sessionId)
+    const participant = session?.participants.get(participantId)
+    if (!session || !participant) {
+      return null
+    }
+
+    const changed: Participant[] = []
+    if (role) {
+      for (const holder of session.participants.values()) {
+        if (holder.role === role && holder.id !== participantId) {
+          holder.role = undefined
+          changed.push(holder)
+        }
+      }
+    }
+    if ((participant.role ?? null) !== role) {
+      participant.role = role ?? undefined
+      changed.push(participant)
+    }
+    return changed
+  }
+
+  // Remove riders who have been offline, without background location updates either,
+  // for longer than maxOfflineMs. Managers stay listed so they can resume their sessions.
+  pruneOfflineParticipants(
+    maxOfflineMs: number,
+    now: number = Date.now()
+  ): { sessionId: string; participantId: string }[] {
+    const pruned: { sessionId: string; participantId: string }[] = []
+
+    for (const session of this.activeSessions.values()) {
+      for (const participant of session.participants.values()) {
+        if (
+          participant.isManager ||
+          participant.isOnline ||
+          now - participant.lastSeen < maxOfflineMs
+        ) {
+          continue
+        }
+
+        session.participants.delete(participant.id)
+        this.participantSessions.delete(participant.id)
+        pruned.push({ sessionId: session.id, participantId: participant.id })
+        console.log(`Pruned ${participant.name} from session ${session.id} after going offline`)
+      }
+    }
+
+    return pruned
+  }
+
   async assignRouteToSession(
     sessionId: string,
     routeId: string,
-    managerId: string
+    manager: RouteAccessor
   ): Promise<boolean> {
     const session = this.activeSessions.get(sessionId)
-    if (!session || !session.isActive || session.managerId !== managerId) {
+    if (!session || !session.isActive || session.managerId !== manager.managerId) {
       return false
     }
 
-    const route = await this.routeService.getRoute(routeId)
+    const route = await this.routeService.getRoute(routeId, manager)
     if (!route) {
       return false
     }
@@ -313,6 +437,7 @@ export class SessionManager {
       // Update memory cache
       session.routeId = routeId
       session.route = route
+      await this.recordRouteChange(sessionId, route)
 
       console.log(`Route ${routeId} assigned to session ${sessionId}`)
       return true
@@ -326,20 +451,23 @@ export class SessionManager {
     sessionId: string,
     name: string,
     points: RoutePoint[],
-    managerId: string,
+    manager: RouteAccessor,
     description?: string
   ): Promise<Route | null> {
     const session = this.activeSessions.get(sessionId)
-    if (!session || !session.isActive || session.managerId !== managerId) {
+    if (!session || !session.isActive || session.managerId !== manager.managerId) {
       return null
     }
 
     try {
       // Create a session-specific route (not a template)
-      const route = await this.routeService.createRoute(name, points, managerId, description, false)
+      const route = await this.routeService.createRoute(name, points, manager, {
+        description,
+        isTemplate: false,
+      })
 
       // Assign it to the session
-      await this.assignRouteToSession(sessionId, route.id, managerId)
+      await this.assignRouteToSession(sessionId, route.id, manager)
 
       return route
     } catch (error) {
@@ -351,10 +479,10 @@ export class SessionManager {
   async updateSessionRoute(
     sessionId: string,
     points: RoutePoint[],
-    managerId: string
+    manager: RouteAccessor
   ): Promise<Route | null> {
     const session = this.activeSessions.get(sessionId)
-    if (!session || !session.isActive || session.managerId !== managerId) {
+    if (!session || !session.isActive || session.managerId !== manager.managerId) {
       return null
     }
 
@@ -362,16 +490,26 @@ export class SessionManager {
       // If session has no route yet, create a new one
       if (!session.routeId) {
         const routeName = `Route for Session ${session.pin}`
-        const route = await this.createSessionRoute(sessionId, routeName, points, managerId)
+        const route = await this.createSessionRoute(sessionId, routeName, points, manager)
         return route
       }
 
       // Update existing route
-      const route = await this.routeService.updateRoute(session.routeId, managerId, { points })
-      if (route) {
-        session.route = route
+      const result = await this.routeService.updateRoute(session.routeId, manager, { points })
+      if (result.success && result.route) {
+        session.route = result.route
+        await this.recordRouteChange(sessionId, result.route)
+        return result.route
       }
-      return route
+
+      // The session uses someone else's route the manager may not edit - continue
+      // on a session-specific copy instead of changing the original
+      if (result.code === 'FORBIDDEN') {
+        const routeName = `${session.route?.name || 'Route'} (Session ${session.pin})`
+        return await this.createSessionRoute(sessionId, routeName, points, manager)
+      }
+
+      return null
     } catch (error) {
       console.error('Error updating session route:', error)
       return null
@@ -387,77 +525,118 @@ export class SessionManager {
     return sessionId ? this.activeSessions.get(sessionId) : undefined
   }
 
-  getParticipantSession(participantId: string): Session | undefined {
-    const sessionId = this.participantSessions.get(participantId)
-    return sessionId ? this.activeSessions.get(sessionId) : undefined
-  }
+  // Resolve a participant token to its participant. Tokens stop working once the
+  // session has ended or the participant has left, as both are removed from memory.
+  authenticateParticipant(token: string): { session: Session; participant: Participant } | null {
+    const claims = this.authService.decodeParticipantToken(token)
+    if (!claims) {
+      return null
+    }
 
-  getAllActiveSessions(): Session[] {
-    return Array.from(this.activeSessions.values()).filter((session) => session.isActive)
+    const session = this.activeSessions.get(claims.sessionId)
+    if (!session || !session.isActive) {
+      return null
+    }
+
+    const participant = session.participants.get(claims.participantId)
+    if (!participant || this.participantSessions.get(participant.id) !== session.id) {
+      return null
+    }
+
+    return { session, participant }
   }
 
-  async getAnyActiveSession(): Promise<Session | null> {
-    // Always check database first to get the most accurate state
+  // Active sessions the manager owns or has joined as a co-manager. Owned sessions are
+  // loaded from the database so they can be resumed after a server restart.
+  async getManagerSessions(managerId: string): Promise<Session[]> {
     try {
-      const sessionData = await this.prisma.session.findFirst({
-        where: { isActive: true },
+      const ownedSessions = await this.prisma.session.findMany({
+        where: { managerId, isActive: true },
         include: {
-          route: true,
+          route: { include: ROUTE_INCLUDE },
         },
-        orderBy: { createdAt: 'desc' },
       })
 
-      if (sessionData) {
-        const session = await this.mapPrismaSessionToSession(sessionData)
-        // Update memory cache with fresh data
-        this.activeSessions.set(session.id, session)
-        this.sessionsByPin.set(session.pin, session.id)
-        return session
-      } else {
-        // No active sessions in database - clean up any stale memory cache
-        this.activeSessions.clear()
-        this.sessionsByPin.clear()
-        return null
+      for (const sessionData of ownedSessions) {
+        if (!this.activeSessions.has(sessionData.id)) {
+          const session = await this.mapPrismaSessionToSession(sessionData)
+          this.activeSessions.set(session.id, session)
+          this.sessionsByPin.set(session.pin, session.id)
+        }
       }
     } catch (error) {
-      console.error('Error getting active session from database:', error)
-      return null
+      console.error('Error loading manager sessions from database:', error)
     }
+
+    return this.getAllActiveSessions()
+      .filter(
+        (session) =>
+          session.managerId === managerId || session.participants.get(managerId)?.isManager
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  getAllActiveSessions(): Session[] {
+    return Array.from(this.activeSessions.values()).filter((session) => session.isActive)
   }
 
   async validateManager(
     sessionId: string,
-    managerId: string
-  ): Promise<{ success: boolean; session?: Session; error?: string }> {
+    managerId: string,
+    organizationId: string
+  ): Promise<{ success: boolean; session?: Session; error?: string; code?: ErrorCode }> {
     // Always check database first to ensure session is actually active
     try {
       const dbSession = await this.prisma.session.findUnique({
         where: { id: sessionId },
         include: {
-          route: true,
+          route: { include: ROUTE_INCLUDE },
         },
       })
 
-      if (!dbSession) {
-        return { success: false, error: 'Session not found' }
+      // Sessions of other organizations are reported as not found
+      if (!dbSession || dbSession.organizationId !== organizationId) {
+        return { success: false, error: 'Session not found', code: 'NOT_FOUND' }
       }
 
       if (!dbSession.isActive) {
         // Clean up any stale memory cache
         this.activeSessions.delete(sessionId)
         this.sessionsByPin.delete(dbSession.pin)
-        return { success: false, error: 'Session is not active' }
+        return { success: false, error: 'Session is not active', code: 'NOT_FOUND' }
+      }
+
+      // Session is active in database, ensure it's in memory cache without
+      // discarding the participants already connected to it
+      let session = this.activeSessions.get(sessionId)
+      if (!session) {
+        session = await this.mapPrismaSessionToSession(dbSession)
+        this.activeSessions.set(session.id, session)
+        this.sessionsByPin.set(session.pin, session.id)
+      }
+
+      // The owner and co-managers who joined with the PIN may reconnect
+      const coManager = session.participants.get(managerId)
+      if (session.managerId !== managerId && !coManager?.isManager) {
+        return { success: false, error: 'Not a manager of this session', code: 'FORBIDDEN' }
       }
 
-      // Session is active in database, ensure it's in memory cache
-      const session = await this.mapPrismaSessionToSession(dbSession)
-      this.activeSessions.set(session.id, session)
-      this.sessionsByPin.set(session.pin, session.id)
+      // Participants are memory-only, so restore the owner after a server restart
+      if (!session.participants.has(managerId)) {
+        session.participants.set(managerId, {
+          id: managerId,
+          name: `${session.managerName} (Manager)`,
+          isOnline: true,
+          isManager: true,
+          joinedAt: Date.now(),
+          lastSeen: Date.now(),
+        })
+      }
 
       return { success: true, session }
     } catch (error) {
       console.error('Error validating manager session:', error)
-      return { success: false, error: 'Failed to validate session' }
+      return { success: false, error: 'Failed to validate session', code: 'INTERNAL_ERROR' }
     }
   }
 
@@ -466,7 +645,7 @@ export class SessionManager {
       const sessionData = await this.prisma.session.findUnique({
         where: { id: sessionId },
         include: {
-          route: true,
+          route: { include: ROUTE_INCLUDE },
           // Note: No participants to include - they're memory-only
         },
       })
@@ -487,18 +666,10 @@ export class SessionManager {
       pin: prismaSession.pin,
       managerId: prismaSession.managerId,
       managerName: prismaSession.managerName,
+      organizationId: prismaSession.organizationId,
       routeId: prismaSession.routeId,
       route: prismaSession.route
-        ? {
-            id: prismaSession.route.id,
-            name: prismaSession.route.name,
-            description: prismaSession.route.description,
-            points: prismaSession.route.points as RoutePoint[],
-            createdBy: prismaSession.route.createdBy,
-            createdAt: prismaSession.route.createdAt.getTime(),
-            updatedAt: prismaSession.route.updatedAt.getTime(),
-            isTemplate: prismaSession.route.isTemplate,
-          }
+        ? this.routeService.mapPrismaRouteToRoute(prismaSession.route)
         : undefined,
       participants,
       createdAt: prismaSession.createdAt.getTime(),
@@ -508,15 +679,36 @@ export class SessionManager {
     }
   }
 
+  // Kept for replays after the session, when its participants are gone from memory
+  private async recordParticipant(sessionId: string, participant: Participant): Promise<void> {
+    await this.prisma.sessionParticipant.upsert({
+      where: { sessionId_participantId: { sessionId, participantId: participant.id } },
+      create: {
+        sessionId,
+        participantId: participant.id,
+        name: participant.name,
+        isManager: participant.isManager,
+      },
+      update: { name: participant.name },
+    })
+  }
+
+  private async recordRouteChange(sessionId: string, route: Route): Promise<void> {
+    await this.prisma.sessionRouteChange.create({
+      data: { sessionId, points: route.points as any, path: route.path ?? null },
+    })
+  }
+
   private generatePin(): string {
     // Generate a 6-digit PIN
     return Math.floor(100000 + Math.random() * 900000).toString()
   }
 
-  // Cleanup inactive sessions (run periodically)
-  async cleanup(): Promise<void> {
+  // Cleanup abandoned and expired sessions (run periodically). Ended sessions are kept
+  // for endedRetentionMs so they can be replayed.
+  async cleanup(endedRetentionMs: number): Promise<void> {
     try {
-      await DatabaseService.getInstance().cleanup()
+      await DatabaseService.getInstance().cleanup(endedRetentionMs)
 
       // Reload active sessions
       await this.initialize()
@@ -0,0 +1,181 @@
+import { PrismaClient } from '@prisma/client'
+import { Location, SosAlert, SosTrigger } from '../types'
+import { DatabaseService } from './DatabaseService'
+
+// Session fields needed to map an alert and to check who may see it
+const SOS_INCLUDE = {
+  session: { select: { pin: true, organizationId: true, isActive: true } },
+}
+
+// Rider emergency alerts. Every alert is stored against its session, and one nobody
+// acknowledges within escalateAfterMs is marked escalated and handed to onEscalate.
+export class SosService {
+  private prisma: PrismaClient
+  private escalationTimers: Map<string, NodeJS.Timeout> = new Map()
+
+  constructor(
+    private escalateAfterMs: number,
+    private onEscalate: (sos: SosAlert, organizationId: string) => void
+  ) {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  // A rider raising SOS again while their alert is open only moves it to their new
+  // position; the escalation clock and the original trigger are kept from the first call
+  async raise(
+    sessionId: string,
+    participant: { id: string; name: string },
+    location: Location,
+    trigger: SosTrigger
+  ): Promise<{ sos: SosAlert; isNew: boolean }> {
+    const position = {
+      lat: location.lat,
+      lng: location.lng,
+      locatedAt: new Date(location.timestamp),
+    }
+    const open = await this.prisma.sosAlert.findFirst({
+      where: { sessionId, participantId: participant.id, acknowledgedAt: null },
+    })
+
+    if (open) {
+      const sosData = await this.prisma.sosAlert.update({
+        where: { id: open.id },
+        data: position,
+        include: SOS_INCLUDE,
+      })
+      return { sos: this.mapPrismaSosToSos(sosData), isNew: false }
+    }
+
+    const sosData = await this.prisma.sosAlert.create({
+      data: {
+        sessionId,
+        participantId: participant.id,
+        participantName: participant.name,
+        trigger: trigger.toUpperCase(),
+        ...position,
+      },
+      include: SOS_INCLUDE,
+    })
+    this.scheduleEscalation(sosData.id, this.escalateAfterMs)
+    return { sos: this.mapPrismaSosToSos(sosData), isNew: true }
+  }
+
+  // Acknowledging twice is harmless: the first acknowledgement is kept
+  async acknowledge(
+    sosId: string,
+    manager: { managerId: string; managerName: string }
+  ): Promise<SosAlert | null> {
+    await this.prisma.sosAlert.updateMany({
+      where: { id: sosId, acknowledgedAt: null },
+      data: {
+        acknowledgedAt: new Date(),
+        acknowledgedBy: manager.managerId,
+        acknowledgedName: manager.managerName,
+      },
+    })
+    this.cancelEscalation(sosId)
+
+    const sosData = await this.prisma.sosAlert.findUnique({
+      where: { id: sosId },
+      include: SOS_INCLUDE,
+    })
+    return sosData ? this.mapPrismaSosToSos(sosData) : null
+  }
+
+  async getOrganizationId(sosId: string): Promise<string | null> {
+    const sosData = await this.prisma.sosAlert.findUnique({
+      where: { id: sosId },
+      include: SOS_INCLUDE,
+    })
+    return sosData ? sosData.session.organizationId : null
+  }
+
+  // Open alerts of the given sessions, plus every escalated one in the organization
+  async listOpen(organizationId: string, sessionIds: string[]): Promise<SosAlert[]> {
+    const alertData = await this.prisma.sosAlert.findMany({
+      where: {
+        acknowledgedAt: null,
+        session: { organizationId, isActive: true },
+        OR: [{ sessionId: { in: sessionIds } }, { escalatedAt: { not: null } }],
+      },
+      include: SOS_INCLUDE,
+      orderBy: { raisedAt: 'asc' },
+    })
+    return alertData.map((sosData: any) => this.mapPrismaSosToSos(sosData))
+  }
+
+  // Escalation timers do not survive a restart, so re-arm them for alerts still waiting
+  async restoreEscalations(): Promise<void> {
+    const pending = await this.prisma.sosAlert.findMany({
+      where: { acknowledgedAt: null, escalatedAt: null, session: { isActive: true } },
+      select: { id: true, raisedAt: true },
+    })
+    for (const sos of pending) {
+      const remainingMs = sos.raisedAt.getTime() + this.escalateAfterMs - Date.now()
+      this.scheduleEscalation(sos.id, Math.max(0, remainingMs))
+    }
+    if (pending.length > 0) {
+      console.log(`🆘 Re-armed escalation for ${pending.length} open SOS alert(s)`)
+    }
+  }
+
+  private scheduleEscalation(sosId: string, delayMs: number): void {
+    this.cancelEscalation(sosId)
+    this.escalationTimers.set(
+      sosId,
+      setTimeout(() => {
+        this.escalationTimers.delete(sosId)
+        this.escalate(sosId).catch((error) => {
+          console.error('Error escalating SOS alert:', error)
+        })
+      }, delayMs)
+    )
+  }
+
+  private cancelEscalation(sosId: string): void {
+    const timer = this.escalationTimers.get(sosId)
+    if (timer) {
+      clearTimeout(timer)
+      this.escalationTimers.delete(sosId)
+    }
+  }
+
+  private async escalate(sosId: string): Promise<void> {
+    // Only alerts still open in a running session escalate
+    const { count } = await this.prisma.sosAlert.updateMany({
+      where: { id: sosId, acknowledgedAt: null, escalatedAt: null, session: { isActive: true } },
+      data: { escalatedAt: new Date() },
+    })
+    if (count === 0) {
+      return
+    }
+
+    const sosData = await this.prisma.sosAlert.findUnique({
+      where: { id: sosId },
+      include: SOS_INCLUDE,
+    })
+    if (sosData) {
+      this.onEscalate(this.mapPrismaSosToSos(sosData), sosData.session.organizationId)
+    }
+  }
+
+  private mapPrismaSosToSos(sosData: any): SosAlert {
+    return {
+      id: sosData.id,
+      sessionId: sosData.sessionId,
+      sessionPin: sosData.session.pin,
+      participantId: sosData.participantId,
+      participantName: sosData.participantName,
+      location: {
+        lat: sosData.lat,
+        lng: sosData.lng,
+        timestamp: sosData.locatedAt.getTime(),
+      },
+      trigger: sosData.trigger.toLowerCase() as SosTrigger,
+      raisedAt: sosData.raisedAt.getTime(),
+      escalatedAt: sosData.escalatedAt?.getTime(),
+      acknowledgedAt: sosData.acknowledgedAt?.getTime(),
+      acknowledgedBy: sosData.acknowledgedName || undefined,
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { PrismaClient } from '@prisma/client'
+import { ErrorCode, Location, LocationTrack, TrackExportFormat } from '../types'
+import { DatabaseService } from './DatabaseService'
+import { LocationHistoryService } from './LocationHistoryService'
+
+// A pause in recording longer than this starts a new track segment, so training logs
+// do not draw a straight line across it
+const SEGMENT_GAP_MS = 5 * 60 * 1000
+
+const CONTENT_TYPES: Record<TrackExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+}
+
+export interface TrackExport {
+  filename: string
+  contentType: string
+  content: string
+}
+
+// A rider's recorded positions, split where recording paused
+interface NamedTrack {
+  participantId: string
+  name: string
+  segments: Location[][]
+}
+
+// Turns a session's recorded positions into files for training logs and GIS tools:
+// GPX 1.1, KML and GeoJSON, with one track per participant
+export class TrackExportService {
+  private prisma: PrismaClient
+
+  constructor(private locationHistory: LocationHistoryService) {
+    this.prisma = DatabaseService.getInstance().getClient()
+  }
+
+  // Without a participant every participant's track is exported. When organizationId is
+  // given, sessions of other organizations are reported as not found.
+  async exportTracks(
+    sessionId: string,
+    format: TrackExportFormat,
+    options: { participantId?: string; organizationId?: string } = {}
+  ): Promise<{ success: boolean; file?: TrackExport; error?: string; code?: ErrorCode }> {
+    const sessionData = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { route: { select: { name: true } }, participants: true },
+    })
+    if (
+      !sessionData ||
+      (options.organizationId && sessionData.organizationId !== options.organizationId)
+    ) {
+      return { success: false, error: 'Session not found', code: 'NOT_FOUND' }
+    }
+
+    const tracks: LocationTrack[] = await this.locationHistory.getCompleteTracks(
+      sessionId,
+      options.participantId
+    )
+    if (tracks.length === 0) {
+      return { success: false, error: 'No positions were recorded', code: 'NOT_FOUND' }
+    }
+
+    const names = new Map<string, string>(
+      sessionData.participants.map((participant: any) => [
+        participant.participantId,
+        participant.name,
+      ])
+    )
+    const namedTracks: NamedTrack[] = tracks.map((track) => ({
+      participantId: track.participantId,
+      name: names.get(track.participantId) || 'Participant',
+      segments: this.splitSegments(track.points),
+    }))
+
+    const date = sessionData.createdAt.toISOString().slice(0, 10)
+    const title = `${sessionData.route?.name || 'Ride'} ${date}`
+    const content =
+      format === 'gpx'
+        ? this.toGpx(title, sessionData.createdAt, namedTracks)
+        : format === 'kml'
+        ? this.toKml(title, namedTracks)
+        : this.toGeoJson(sessionId, namedTracks)
+
+    // ride-2026-10-19-123456, with the rider's name for a single track
+    const base = `ride-${date}-${sessionData.pin}`
+    const suffix = options.participantId ? `-${slug(namedTracks[0].name)}` : ''
+    return {
+      success: true,
+      file: {
+        filename: `${base}${suffix}.${format}`,
+        contentType: CONTENT_TYPES[format],
+        content,
+      },
+    }
+  }
+
+  private toGpx(title: string, startedAt: Date, tracks: NamedTrack[]): string {
+    const trks = tracks
+      .map((track) => {
+        const segments = track.segments
+          .map((segment) => {
+            const points = segment
+              .map(
+                (point) =>
+                  `        <trkpt lat="${point.lat}" lon="${point.lng}">` +
+                  `<time>${new Date(point.timestamp).toISOString()}</time></trkpt>`
+              )
+              .join('\n')
+            return `      <trkseg>\n${points}\n      </trkseg>`
+          })
+          .join('\n')
+        return `  <trk>\n    <name>${escapeXml(track.name)}</name>\n${segments}\n  </trk>`
+      })
+      .join('\n')
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="RideMapper" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
+  <metadata>
+    <name>${escapeXml(title)}</name>
+    <time>${startedAt.toISOString()}</time>
+  </metadata>
+${trks}
+</gpx>
+`
+  }
+
+  // Timed tracks use the gx:Track extension Google Earth reads; KML's own LineString
+  // has no timestamps
+  private toKml(title: string, tracks: NamedTrack[]): string {
+    const placemarks = tracks
+      .map((track) => {
+        const segments = track.segments
+          .map((segment) => {
+            const whens = segment
+              .map((point) => `          <when>${new Date(point.timestamp).toISOString()}</when>`)
+              .join('\n')
+            const coords = segment
+              .map((point) => `          <gx:coord>${point.lng} ${point.lat} 0</gx:coord>`)
+              .join('\n')
+            return `        <gx:Track>\n${whens}\n${coords}\n        </gx:Track>`
+          })
+          .join('\n')
+        return `    <Placemark>
+      <name>${escapeXml(track.name)}</name>
+      <gx:MultiTrack>
+${segments}
+      </gx:MultiTrack>
+    </Placemark>`
+      })
+      .join('\n')
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${escapeXml(title)}</name>
+${placemarks}
+  </Document>
+</kml>
+`
+  }
+
+  // Timestamps go in coordinateProperties.times, one array per line, as other GeoJSON
+  // track converters write them
+  private toGeoJson(sessionId: string, tracks: NamedTrack[]): string {
+    return JSON.stringify({
+      type: 'FeatureCollection',
+      features: tracks.map((track) => ({
+        type: 'Feature',
+        geometry: {
+          type: 'MultiLineString',
+          coordinates: track.segments.map((segment) =>
+            segment.map((point) => [point.lng, point.lat])
+          ),
+        },
+        properties: {
+          sessionId,
+          participantId: track.participantId,
+          name: track.name,
+          coordinateProperties: {
+            times: track.segments.map((segment) =>
+              segment.map((point) => new Date(point.timestamp).toISOString())
+            ),
+          },
+        },
+      })),
+    })
+  }
+
+  private splitSegments(points: Location[]): Location[][] {
+    const segments: Location[][] = []
+    let current: Location[] = []
+    for (const point of points) {
+      const previous = current[current.length - 1]
+      if (previous && point.timestamp - previous.timestamp > SEGMENT_GAP_MS) {
+        segments.push(current)
+        current = []
+      }
+      current.push(point)
+    }
+    if (current.length > 0) {
+      segments.push(current)
+    }
+    return segments
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// "Anna Müller (Manager)" -> "anna-m-ller-manager", safe in any filename
+function slug(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'participant'
+  )
+}
@@ -0,0 +1,223 @@
+import { z } from 'zod'
+import { ClientToServerEvents } from '../types'
+
+// Upper bounds on client-supplied values. They are generous for real use and only
+// exist to stop oversized payloads from reaching the services or the database.
+export const LIMITS = {
+  idLength: 64,
+  tokenLength: 2048,
+  participantNameLength: 50,
+  routeNameLength: 100,
+  routeDescriptionLength: 1000,
+  routePoints: 500,
+  checkpointRadiusMeters: 5000,
+  routeDistanceMeters: 10_000_000,
+  routePathLength: 500_000,
+  sharedWith: 100,
+  messageLength: 1000,
+  messageHistoryPage: 100,
+  quickAlerts: 20,
+  quickAlertLabelLength: 60,
+  usernameLength: 50,
+  managerNameLength: 100,
+  passwordMinLength: 8,
+  passwordMaxLength: 128,
+}
+
+const id = z.string().trim().min(1, 'Required').max(LIMITS.idLength)
+
+const pin = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'PIN must be 6 digits')
+
+const latitude = z.number().finite().min(-90).max(90)
+const longitude = z.number().finite().min(-180).max(180)
+
+export const locationSchema = z.object({
+  lat: latitude,
+  lng: longitude,
+  timestamp: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .transform((timestamp) => timestamp ?? Date.now()),
+  accuracy: z.number().finite().nonnegative().optional(),
+  speed: z.number().finite().nonnegative().optional(),
+})
+
+const routePoint = z.object({
+  lat: latitude,
+  lng: longitude,
+  type: z.enum(['start', 'end', 'waypoint', 'checkpoint', 'regroup']),
+  radius: z.number().finite().positive().max(LIMITS.checkpointRadiusMeters).optional(),
+})
+
+const routePoints = z.array(routePoint).max(LIMITS.routePoints)
+
+const routeName = z.string().trim().min(1, 'Required').max(LIMITS.routeNameLength)
+const routeDescription = z.string().trim().max(LIMITS.routeDescriptionLength)
+const routeDistance = z.number().finite().nonnegative().max(LIMITS.routeDistanceMeters)
+const routePath = z.string().min(1).max(LIMITS.routePathLength)
+const routeVisibility = z.enum(['private', 'shared', 'organization'])
+const sharedWith = z.array(id).max(LIMITS.sharedWith)
+
+const sessionRef = z.object({ sessionId: id })
+
+// One schema per client event. Typing the map against ClientToServerEvents makes the
+// compiler flag any event without a schema and any schema whose output drifts from
+// the payload its handler expects.
+type EventSchemas = {
+  [E in keyof ClientToServerEvents]: z.ZodType<
+    Parameters<ClientToServerEvents[E]>[0],
+    z.ZodTypeDef,
+    unknown
+  >
+}
+
+export const eventSchemas: EventSchemas = {
+  'session:create': z.object({ routeId: id.optional() }),
+  'session:join': z.object({
+    pin,
+    participantName: z.string().trim().min(1, 'Required').max(LIMITS.participantNameLength),
+  }),
+  'session:join-as-manager': z.object({ pin }),
+  'session:leave': sessionRef,
+  'session:end': sessionRef,
+  'session:rejoin': z.object({
+    sessionId: id,
+    participantToken: z.string().min(1, 'Required').max(LIMITS.tokenLength),
+  }),
+  'session:list': z.object({}),
+  'session:list-ended': z.object({}),
+  'session:replay': sessionRef,
+  'session:validate-manager': sessionRef,
+
+  'location:update': z.object({ sessionId: id, location: locationSchema }),
+  'location:history': z.object({
+    sessionId: id,
+    participantId: id.optional(),
+    since: z.number().int().nonnegative().optional(),
+    until: z.number().int().nonnegative().optional(),
+  }),
+
+  'route:create': z.object({
+    name: routeName,
+    description: routeDescription.optional(),
+    points: routePoints,
+    distance: routeDistance.optional(),
+    path: routePath.optional(),
+    isTemplate: z.boolean().optional(),
+    visibility: routeVisibility.optional(),
+    sharedWith: sharedWith.optional(),
+  }),
+  'route:update': z.object({
+    routeId: id,
+    name: routeName.optional(),
+    description: routeDescription.optional(),
+    points: routePoints.optional(),
+    distance: routeDistance.optional(),
+    path: routePath.optional(),
+    visibility: routeVisibility.optional(),
+    sharedWith: sharedWith.optional(),
+  }),
+  'route:delete': z.object({ routeId: id }),
+  'route:list': z.object({
+    createdBy: id.optional(),
+    templatesOnly: z.boolean().optional(),
+  }),
+  'route:get': z.object({ routeId: id }),
+  'route:assign-to-session': z.object({ sessionId: id, routeId: id }),
+
+  'session:create-route': z.object({
+    sessionId: id,
+    name: routeName,
+    description: routeDescription.optional(),
+    points: routePoints,
+  }),
+  'session:update-route': z.object({ sessionId: id, points: routePoints }),
+  'checkpoint:list': sessionRef,
+  'session:set-role': z.object({
+    sessionId: id,
+    participantId: id,
+    role: z.enum(['lead', 'sweep']).nullable(),
+  }),
+
+  'message:send': z
+    .object({
+      sessionId: id,
+      toId: id.optional(),
+      content: z.string().trim().min(1, 'Required').max(LIMITS.messageLength),
+      type: z.enum(['direct', 'broadcast']),
+    })
+    .refine((message) => message.type !== 'direct' || message.toId !== undefined, {
+      message: 'Required for direct messages',
+      path: ['toId'],
+    }),
+  'sos:raised': z.object({
+    sessionId: id,
+    location: locationSchema,
+    trigger: z.enum(['manual', 'crash']).optional(),
+  }),
+  'sos:acknowledged': z.object({ sosId: id }),
+  'sos:list': z.object({}),
+
+  'alert:list': z.object({}),
+  'alert:send': z.object({ sessionId: id, alertId: id, toId: id.optional() }),
+  'message:history': z.object({
+    sessionId: id,
+    conversationId: id.optional(),
+    before: id.optional(),
+    limit: z.number().int().min(1).max(LIMITS.messageHistoryPage).optional(),
+  }),
+  'message:read': z.object({
+    sessionId: id,
+    conversationId: id,
+    lastReadAt: z.number().int().nonnegative(),
+  }),
+}
+
+// Body of POST /api/location, sent by the service worker's background sync
+export const apiLocationSchema = z.object({
+  sessionId: id,
+  location: locationSchema,
+  timestamp: z.number().int().nonnegative().optional(),
+})
+
+export const loginSchema = z.object({
+  username: z.string().min(1, 'Required').max(LIMITS.usernameLength),
+  password: z.string().min(1, 'Required').max(LIMITS.passwordMaxLength),
+})
+
+export const registerSchema = z.object({
+  inviteToken: z.string().min(1, 'Required').max(LIMITS.tokenLength),
+  username: z.string().trim().min(1, 'Required').max(LIMITS.usernameLength),
+  name: z.string().trim().min(1, 'Required').max(LIMITS.managerNameLength),
+  password: z
+    .string()
+    .min(
+      LIMITS.passwordMinLength,
+      `Password must be at least ${LIMITS.passwordMinLength} characters long`
+    )
+    .max(LIMITS.passwordMaxLength),
+})
+
+export const createInviteSchema = z.object({
+  role: z.enum(['admin', 'manager']).default('manager'),
+})
+
+// Body of PUT /api/organization/alerts. Alerts keep their ID when one is given; the
+// list order is the display order.
+export const quickAlertsSchema = z.object({
+  alerts: z
+    .array(
+      z.object({
+        id: id.optional(),
+        label: z.string().trim().min(1, 'Required').max(LIMITS.quickAlertLabelLength),
+        priority: z.enum(['low', 'normal', 'high']),
+      })
+    )
+    .min(1, 'Keep at least one alert')
+    .max(LIMITS.quickAlerts),
+})
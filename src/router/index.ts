@@ -15,6 +15,11 @@ const router = createRouter({
       name: 'manager-login',
       component: () => import('../views/ManagerLogin.vue'),
     },
+    {
+      path: '/register',
+      name: 'manager-register',
+      component: () => import('../views/ManagerRegister.vue'),
+    },
     {
       path: '/join',
       name: 'join',
@@ -50,6 +55,20 @@ const router = createRouter({
         }
       },
     },
+    {
+      path: '/replay/:sessionId',
+      name: 'replay',
+      component: () => import('../views/ReplayView.vue'),
+      beforeEnter: (to, from, next) => {
+        const authStore = useAuthStore()
+
+        if (authStore.isAuthenticated) {
+          next()
+        } else {
+          next('/manager-login')
+        }
+      },
+    },
     {
       path: '/maps',
       name: 'maps',
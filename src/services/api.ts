@@ -0,0 +1,67 @@
+// REST API helpers shared by the client services
+
+// Automatically detect server URL based on current location
+export function getServerUrl(): string {
+  if (import.meta.env.VITE_API_URL) {
+    // Use explicit URL if provided (for development)
+    return import.meta.env.VITE_API_URL
+  } else if (typeof window !== 'undefined') {
+    // In browser: use current origin
+    return window.location.origin
+  }
+  // Fallback for development
+  return 'http://localhost:3200'
+}
+
+export async function apiRequest<T extends { success: boolean; error?: string }>(
+  path: string,
+  options: {
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+    body?: unknown
+    token?: string | null
+  } = {}
+): Promise<T> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`
+  }
+
+  try {
+    const response = await fetch(`${getServerUrl()}${path}`, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    })
+
+    return (await response.json()) as T
+  } catch (error) {
+    console.error(`API request to ${path} failed:`, error)
+    return { success: false, error: 'Could not reach the server' } as T
+  }
+}
+
+// Fetch a file the server renders, e.g. a report download, with the name the server
+// gave it. Failed requests carry the server's JSON error.
+export async function apiDownload(
+  path: string,
+  options: { token?: string | null } = {}
+): Promise<{ success: boolean; file?: Blob; filename?: string; error?: string }> {
+  const headers: Record<string, string> = {}
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`
+  }
+
+  try {
+    const response = await fetch(`${getServerUrl()}${path}`, { headers })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      return { success: false, error: body.error || `Download failed (${response.status})` }
+    }
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1]
+    return { success: true, file: await response.blob(), filename }
+  } catch (error) {
+    console.error(`Download of ${path} failed:`, error)
+    return { success: false, error: 'Could not reach the server' }
+  }
+}
@@ -4,6 +4,7 @@
 interface LocationUpdate {
   sessionId: string
   participantId: string
+  participantToken: string // Sent as the bearer token to POST /api/location
   location: { lat: number; lng: number }
   timestamp: number
 }
@@ -0,0 +1,91 @@
+import { apiRequest } from '@/services/api'
+import type { AlertPriority, QuickAlert } from '@protocol'
+
+export type { AlertPriority, QuickAlert }
+
+export type ManagerRole = 'admin' | 'manager'
+
+export interface Organization {
+  id: string
+  name: string
+  createdAt: number
+}
+
+export interface OrganizationManager {
+  id: string
+  organizationId: string
+  username: string
+  name: string
+  role: ManagerRole
+  createdAt: number
+}
+
+export interface ManagerInvite {
+  id: string
+  organizationId: string
+  role: ManagerRole
+  invitedBy: string
+  expiresAt: number
+  createdAt: number
+}
+
+// REST client for the caller's organization; the server scopes every call by the token
+class OrganizationService {
+  private authToken: string | null = sessionStorage.getItem('authToken')
+
+  getOrganization(): Promise<{
+    success: boolean
+    organization?: Organization
+    managers?: OrganizationManager[]
+    error?: string
+  }> {
+    return apiRequest('/api/organization', { token: this.authToken })
+  }
+
+  listInvites(): Promise<{ success: boolean; invites?: ManagerInvite[]; error?: string }> {
+    return apiRequest('/api/organization/invites', { token: this.authToken })
+  }
+
+  // The returned token is only shown once; it is what the invitee registers with
+  createInvite(
+    role: ManagerRole = 'manager'
+  ): Promise<{ success: boolean; invite?: ManagerInvite; token?: string; error?: string }> {
+    return apiRequest('/api/organization/invites', {
+      method: 'POST',
+      body: { role },
+      token: this.authToken,
+    })
+  }
+
+  revokeInvite(inviteId: string): Promise<{ success: boolean; error?: string }> {
+    return apiRequest(`/api/organization/invites/${encodeURIComponent(inviteId)}`, {
+      method: 'DELETE',
+      token: this.authToken,
+    })
+  }
+
+  listQuickAlerts(): Promise<{ success: boolean; alerts?: QuickAlert[]; error?: string }> {
+    return apiRequest('/api/organization/alerts', { token: this.authToken })
+  }
+
+  // Replaces the whole list; alerts sent without an ID are created
+  saveQuickAlerts(
+    alerts: { id?: string; label: string; priority: AlertPriority }[]
+  ): Promise<{ success: boolean; alerts?: QuickAlert[]; error?: string }> {
+    return apiRequest('/api/organization/alerts', {
+      method: 'PUT',
+      body: { alerts },
+      token: this.authToken,
+    })
+  }
+
+  getInviteLink(token: string): string {
+    return `${window.location.origin}/register?invite=${encodeURIComponent(token)}`
+  }
+
+  setAuthToken(token: string | null) {
+    this.authToken = token
+  }
+}
+
+export const organizationService = new OrganizationService()
@@ -0,0 +1,39 @@
+import { apiDownload, apiRequest } from '@/services/api'
+import type { RiderReport, SessionReport } from '@protocol'
+
+export type { RiderReport, SessionReport }
+
+export type ReportFormat = 'csv' | 'html'
+
+// Post-ride reports of ended sessions, over the REST API so they can be downloaded
+class ReportService {
+  private authToken: string | null = sessionStorage.getItem('authToken')
+
+  getReport(
+    sessionId: string
+  ): Promise<{ success: boolean; report?: SessionReport; error?: string }> {
+    return apiRequest(`/api/sessions/${encodeURIComponent(sessionId)}/report`, {
+      token: this.authToken,
+    })
+  }
+
+  // A CSV table, or an HTML page for printing with times in the browser's time zone
+  downloadReport(
+    sessionId: string,
+    format: ReportFormat
+  ): Promise<{ success: boolean; file?: Blob; filename?: string; error?: string }> {
+    const query = new URLSearchParams({ format })
+    if (format === 'html') {
+      query.set('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone)
+    }
+    return apiDownload(`/api/sessions/${encodeURIComponent(sessionId)}/report?${query}`, {
+      token: this.authToken,
+    })
+  }
+
+  setAuthToken(token: string | null) {
+    this.authToken = token
+  }
+}
+
+export const reportService = new ReportService()
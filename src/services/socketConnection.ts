@@ -0,0 +1,213 @@
+import { reactive, readonly } from 'vue'
+import { io, Socket } from 'socket.io-client'
+import { getServerUrl } from '@/services/api'
+import {
+  PROTOCOL_VERSION,
+  type ClientToServerEvents,
+  type EventResponse,
+  type HandshakeAuth,
+  type ServerToClientEvents,
+} from '@protocol'
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+export interface ConnectionState {
+  status: ConnectionStatus
+  error: string | null // Why the last connection attempt failed
+  errorCode: string | null // Set when the server refused the handshake, e.g. UPGRADE_REQUIRED
+  reconnectAttempt: number // 0 unless a reconnection is in progress
+}
+
+type EventData<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0]
+
+// Events the server acknowledges through a callback, and those it does not
+type AckEvent = {
+  [E in keyof ClientToServerEvents]: EventResponse<E> extends never ? never : E
+}[keyof ClientToServerEvents]
+type FireAndForgetEvent = Exclude<keyof ClientToServerEvents, AckEvent>
+
+// Reconnection policy for the app's only socket: back off from 1s to 10s with jitter
+// and keep trying for as long as the page is open
+const RECONNECTION = {
+  reconnection: true,
+  reconnectionAttempts: Infinity,
+  reconnectionDelay: 1000,
+  reconnectionDelayMax: 10000,
+  randomizationFactor: 0.5,
+}
+const CONNECT_TIMEOUT_MS = 10000
+// How long an acknowledged event may wait for the server's callback
+const ACK_TIMEOUT_MS = 10000
+
+// Owns the single Socket.IO connection shared by every client service. Services send
+// through request() and send(); views read the reactive state.
+class SocketConnection {
+  private socket: AppSocket | null = null
+  private authToken: string | null = sessionStorage.getItem('authToken')
+  private readonly mutableState = reactive<ConnectionState>({
+    status: 'disconnected',
+    error: null,
+    errorCode: null,
+    reconnectAttempt: 0,
+  })
+
+  readonly state = readonly(this.mutableState)
+
+  // Set the manager token presented at handshake. An open connection is re-established
+  // so the server binds the new identity.
+  setAuthToken(token: string | null) {
+    if (token === this.authToken) return
+
+    this.authToken = token
+    if (this.socket) {
+      this.socket.auth = this.handshakeAuth()
+      if (this.socket.connected) {
+        this.socket.disconnect().connect()
+      }
+    }
+  }
+
+  // Resolves once connected, or rejects with the error of the first failed attempt.
+  // Reconnection after a failure continues in the background unless the server refused
+  // the handshake.
+  connect(): Promise<AppSocket> {
+    const socket = this.socket || this.createSocket()
+    if (socket.connected) {
+      return Promise.resolve(socket)
+    }
+
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.off('connect_error', onError)
+        resolve(socket)
+      }
+      const onError = (error: Error) => {
+        socket.off('connect', onConnect)
+        reject(error)
+      }
+      socket.once('connect', onConnect)
+      socket.once('connect_error', onError)
+
+      if (!socket.active) {
+        this.mutableState.status = 'connecting'
+        socket.connect()
+      }
+    })
+  }
+
+  disconnect() {
+    if (this.socket) {
+      this.socket.disconnect()
+      this.socket = null
+    }
+    this.mutableState.status = 'disconnected'
+  }
+
+  getSocket(): AppSocket | null {
+    return this.socket
+  }
+
+  isConnected(): boolean {
+    return this.socket?.connected || false
+  }
+
+  // Emit an event the server acknowledges. Connects first if needed, and never leaves
+  // the caller hanging: a missing connection or a late acknowledgement resolves to a
+  // failed response.
+  async request<E extends AckEvent>(event: E, data: EventData<E>): Promise<EventResponse<E>> {
+    let socket: AppSocket
+    try {
+      socket = await this.connect()
+    } catch {
+      return { success: false, error: 'Not connected to server' } as EventResponse<E>
+    }
+
+    return new Promise((resolve) => {
+      // The typed emit cannot resolve its arguments for a generic event name
+      const emitter = socket.timeout(ACK_TIMEOUT_MS) as unknown as {
+        emit(
+          event: E,
+          data: EventData<E>,
+          ack: (err: Error | null, response: unknown) => void
+        ): void
+      }
+      emitter.emit(event, data, (err, response) => {
+        if (err) {
+          console.warn(`No acknowledgement for ${event} within ${ACK_TIMEOUT_MS}ms`)
+          resolve({
+            success: false,
+            error: 'The server did not respond in time. Please try again.',
+          } as EventResponse<E>)
+          return
+        }
+        resolve(response as EventResponse<E>)
+      })
+    })
+  }
+
+  // Emit an event without acknowledgement. Emits made while reconnecting are buffered
+  // and sent once the connection is back.
+  send<E extends FireAndForgetEvent>(event: E, data: EventData<E>): boolean {
+    if (!this.socket) return false
+
+    const emitter = this.socket as unknown as { emit(event: E, data: EventData<E>): void }
+    emitter.emit(event, data)
+    return true
+  }
+
+  private handshakeAuth(): HandshakeAuth {
+    return this.authToken
+      ? { token: this.authToken, protocolVersion: PROTOCOL_VERSION }
+      : { protocolVersion: PROTOCOL_VERSION }
+  }
+
+  private createSocket(): AppSocket {
+    const serverUrl = getServerUrl()
+    console.log('Connecting to WebSocket server at:', serverUrl)
+
+    const socket: AppSocket = io(serverUrl, {
+      ...RECONNECTION,
+      transports: ['websocket', 'polling'],
+      timeout: CONNECT_TIMEOUT_MS,
+      autoConnect: false,
+      auth: this.handshakeAuth(),
+    })
+
+    socket.on('connect', () => {
+      console.log('Connected to WebSocket server:', socket.id)
+      Object.assign(this.mutableState, {
+        status: 'connected',
+        error: null,
+        errorCode: null,
+        reconnectAttempt: 0,
+      })
+    })
+
+    socket.on('disconnect', (reason) => {
+      console.log('Disconnected from WebSocket server:', reason)
+      // Socket.IO reconnects by itself unless the disconnect was deliberate
+      this.mutableState.status = socket.active ? 'reconnecting' : 'disconnected'
+    })
+
+    socket.on('connect_error', (error) => {
+      console.error('WebSocket connection error:', error)
+      const code = (error as Error & { data?: { code?: string } }).data?.code
+      Object.assign(this.mutableState, {
+        status: socket.active ? 'reconnecting' : 'disconnected',
+        error: error.message,
+        errorCode: code || null,
+      })
+    })
+
+    socket.io.on('reconnect_attempt', (attempt) => {
+      this.mutableState.reconnectAttempt = attempt
+    })
+
+    this.socket = socket
+    return socket
+  }
+}
+
+export const socketConnection = new SocketConnection()
@@ -0,0 +1,31 @@
+import { apiDownload } from '@/services/api'
+import type { TrackExportFormat } from '@protocol'
+
+export type { TrackExportFormat }
+
+export const TRACK_EXPORT_FORMATS: { value: TrackExportFormat; title: string }[] = [
+  { value: 'gpx', title: 'GPX' },
+  { value: 'kml', title: 'KML' },
+  { value: 'geojson', title: 'GeoJSON' },
+]
+
+// Recorded tracks as files for training logs and incident review
+class TrackExportService {
+  // Managers pass their token and export one participant or, without one, everyone.
+  // Riders pass their participant token and always get their own track.
+  downloadTracks(
+    sessionId: string,
+    format: TrackExportFormat,
+    options: { token: string | null; participantId?: string }
+  ): Promise<{ success: boolean; file?: Blob; filename?: string; error?: string }> {
+    const query = new URLSearchParams({ format })
+    if (options.participantId) {
+      query.set('participantId', options.participantId)
+    }
+    return apiDownload(`/api/sessions/${encodeURIComponent(sessionId)}/tracks?${query}`, {
+      token: options.token,
+    })
+  }
+}
+
+export const trackExportService = new TrackExportService()
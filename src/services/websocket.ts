@@ -1,279 +1,162 @@
-import { io, Socket } from 'socket.io-client'
+import { socketConnection, type AppSocket } from '@/services/socketConnection'
+import type { EventResponse, Location, RideRole, RoutePoint, SosTrigger } from '@protocol'
 
-export interface ServerToClientEvents {
-  // Session events
-  'session:joined': (data: { sessionId: string; participant: any }) => void
-  'session:left': (data: { sessionId: string; participantId: string }) => void
-  'session:ended': (data: { sessionId: string }) => void
-  'session:participant-update': (data: { sessionId: string; participant: any }) => void
-
-  // Location events
-  'location:updated': (data: { sessionId: string; participantId: string; location: any }) => void
-
-  // Route events
-  'route:updated': (data: { sessionId: string; route: any }) => void
-
-  // Message events
-  'message:received': (data: any) => void
-
-  // Error events
-  error: (data: { message: string; code?: string }) => void
-}
-
-export interface ClientToServerEvents {
-  // Session management
-  'session:create': (
-    data: { managerName: string; routeId?: string },
-    callback: (response: { success: boolean; session?: any; error?: string }) => void
-  ) => void
-  'session:join': (
-    data: { pin: string; participantName: string },
-    callback: (response: {
-      success: boolean
-      session?: any
-      participantId?: string
-      error?: string
-    }) => void
-  ) => void
-  'session:join-as-manager': (
-    data: { pin: string; managerName: string; managerId: string },
-    callback: (response: {
-      success: boolean
-      session?: any
-      participantId?: string
-      error?: string
-    }) => void
-  ) => void
-  'session:leave': (data: { sessionId: string; participantId: string }) => void
-  'session:end': (data: { sessionId: string; managerId: string }) => void
-  'session:rejoin': (
-    data: { sessionId: string; participantId: string },
-    callback: (response: { success: boolean; session?: any; error?: string }) => void
-  ) => void
-  'session:validate-manager': (
-    data: { sessionId: string; managerId: string },
-    callback: (response: { success: boolean; session?: any; error?: string }) => void
-  ) => void
-
-  // Location updates
-  'location:update': (data: {
-    sessionId: string
-    participantId: string
-    location: { lat: number; lng: number }
-  }) => void
-
-  // Route management
-  'route:update': (data: { sessionId: string; managerId: string; route: any[] }) => void
+// Session, location and messaging events, sent over the shared socket connection
+class WebSocketService {
+  // Set the manager token presented at handshake. An open connection is re-established
+  // so the server binds the new identity.
+  setAuthToken(token: string | null) {
+    socketConnection.setAuthToken(token)
+  }
 
-  // Session route management
-  'session:update-route': (
-    data: { sessionId: string; points: any[]; managerId: string },
-    callback: (response: { success: boolean; route?: any; error?: string }) => void
-  ) => void
+  connect(): Promise<AppSocket> {
+    return socketConnection.connect()
+  }
 
-  // Messaging
-  'message:send': (data: {
-    sessionId: string
-    from: string
-    to: string
-    content: string
-    type: 'direct' | 'broadcast'
-  }) => void
-}
+  disconnect() {
+    socketConnection.disconnect()
+  }
 
-class WebSocketService {
-  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null
-  private isConnected = false
+  getSocket() {
+    return socketConnection.getSocket()
+  }
 
-  connect(): Promise<Socket<ServerToClientEvents, ClientToServerEvents>> {
-    return new Promise((resolve, reject) => {
-      // Automatically detect server URL based on current location
-      let serverUrl: string
+  isSocketConnected() {
+    return socketConnection.isConnected()
+  }
 
-      if (import.meta.env.VITE_API_URL) {
-        // Use explicit URL if provided (for development)
-        serverUrl = import.meta.env.VITE_API_URL
-      } else if (typeof window !== 'undefined') {
-        // In browser: use current origin
-        serverUrl = window.location.origin
-      } else {
-        // Fallback for development
-        serverUrl = 'http://localhost:3200'
-      }
+  // Session methods
+  createSession(routeId?: string): Promise<EventResponse<'session:create'>> {
+    return socketConnection.request('session:create', { routeId })
+  }
 
-      console.log('Connecting to WebSocket server at:', serverUrl)
+  joinSession(pin: string, participantName: string): Promise<EventResponse<'session:join'>> {
+    return socketConnection.request('session:join', { pin, participantName })
+  }
 
-      this.socket = io(serverUrl, {
-        transports: ['websocket', 'polling'],
-        timeout: 10000,
-      })
+  joinAsManager(pin: string): Promise<EventResponse<'session:join-as-manager'>> {
+    return socketConnection.request('session:join-as-manager', { pin })
+  }
 
-      this.socket.on('connect', () => {
-        console.log('Connected to WebSocket server:', this.socket?.id)
-        this.isConnected = true
-        resolve(this.socket!)
-      })
+  leaveSession(sessionId: string) {
+    socketConnection.send('session:leave', { sessionId })
+  }
 
-      this.socket.on('disconnect', (reason) => {
-        console.log('Disconnected from WebSocket server:', reason)
-        this.isConnected = false
-      })
+  endSession(sessionId: string) {
+    socketConnection.send('session:end', { sessionId })
+  }
 
-      this.socket.on('connect_error', (error) => {
-        console.error('WebSocket connection error:', error)
-        this.isConnected = false
-        reject(error)
-      })
-    })
+  updateLocation(sessionId: string, location: Location) {
+    socketConnection.send('location:update', { sessionId, location })
   }
 
-  disconnect() {
-    if (this.socket) {
-      this.socket.disconnect()
-      this.socket = null
-      this.isConnected = false
-    }
+  // Recorded positions, oldest first; without a participant every track the user may see
+  getLocationHistory(
+    sessionId: string,
+    options: { participantId?: string; since?: number; until?: number } = {}
+  ): Promise<EventResponse<'location:history'>> {
+    return socketConnection.request('location:history', { sessionId, ...options })
   }
 
-  getSocket() {
-    return this.socket
+  updateRoute(
+    sessionId: string,
+    route: RoutePoint[]
+  ): Promise<EventResponse<'session:update-route'>> {
+    return socketConnection.request('session:update-route', { sessionId, points: route })
   }
 
-  isSocketConnected() {
-    return this.isConnected && this.socket?.connected
+  setParticipantRole(
+    sessionId: string,
+    participantId: string,
+    role: RideRole | null
+  ): Promise<EventResponse<'session:set-role'>> {
+    return socketConnection.request('session:set-role', { sessionId, participantId, role })
   }
 
-  // Session methods
-  createSession(
-    managerName: string,
-    routeId?: string
-  ): Promise<{ success: boolean; session?: any; error?: string }> {
-    return new Promise((resolve) => {
-      if (!this.socket) {
-        resolve({ success: false, error: 'Not connected to server' })
-        return
-      }
+  listCheckpointArrivals(sessionId: string): Promise<EventResponse<'checkpoint:list'>> {
+    return socketConnection.request('checkpoint:list', { sessionId })
+  }
 
-      this.socket.emit('session:create', { managerName, routeId }, (response) => {
-        resolve(response)
-      })
+  // The sender is the participant bound to this socket; without a recipient the message
+  // goes to the whole session
+  sendMessage(
+    sessionId: string,
+    content: string,
+    toId?: string
+  ): Promise<EventResponse<'message:send'>> {
+    return socketConnection.request('message:send', {
+      sessionId,
+      toId,
+      content,
+      type: toId ? 'direct' : 'broadcast',
     })
   }
 
-  joinSession(
-    pin: string,
-    participantName: string
-  ): Promise<{ success: boolean; session?: any; participantId?: string; error?: string }> {
-    return new Promise((resolve) => {
-      if (!this.socket) {
-        resolve({ success: false, error: 'Not connected to server' })
-        return
-      }
-
-      this.socket.emit('session:join', { pin, participantName }, (response) => {
-        resolve(response)
-      })
-    })
+  raiseSos(
+    sessionId: string,
+    location: Location,
+    trigger: SosTrigger = 'manual'
+  ): Promise<EventResponse<'sos:raised'>> {
+    return socketConnection.request('sos:raised', { sessionId, location, trigger })
   }
 
-  joinAsManager(
-    pin: string,
-    managerName: string,
-    managerId: string
-  ): Promise<{ success: boolean; session?: any; participantId?: string; error?: string }> {
-    return new Promise((resolve) => {
-      if (!this.socket) {
-        resolve({ success: false, error: 'Not connected to server' })
-        return
-      }
+  acknowledgeSos(sosId: string): Promise<EventResponse<'sos:acknowledged'>> {
+    return socketConnection.request('sos:acknowledged', { sosId })
+  }
 
-      this.socket.emit('session:join-as-manager', { pin, managerName, managerId }, (response) => {
-        resolve(response)
-      })
-    })
+  listSosAlerts(): Promise<EventResponse<'sos:list'>> {
+    return socketConnection.request('sos:list', {})
   }
 
-  leaveSession(sessionId: string, participantId: string) {
-    if (this.socket) {
-      this.socket.emit('session:leave', { sessionId, participantId })
-    }
+  listAlerts(): Promise<EventResponse<'alert:list'>> {
+    return socketConnection.request('alert:list', {})
   }
 
-  endSession(sessionId: string, managerId: string) {
-    if (this.socket) {
-      this.socket.emit('session:end', { sessionId, managerId })
-    }
+  // Without a recipient the alert goes to the whole session
+  sendAlert(
+    sessionId: string,
+    alertId: string,
+    toId?: string
+  ): Promise<EventResponse<'alert:send'>> {
+    return socketConnection.request('alert:send', { sessionId, alertId, toId })
   }
 
-  updateLocation(sessionId: string, participantId: string, location: { lat: number; lng: number }) {
-    if (this.socket) {
-      this.socket.emit('location:update', { sessionId, participantId, location })
-    }
+  getMessageHistory(
+    sessionId: string,
+    options: { conversationId?: string; before?: string; limit?: number } = {}
+  ): Promise<EventResponse<'message:history'>> {
+    return socketConnection.request('message:history', { sessionId, ...options })
   }
 
-  updateRoute(
+  markMessagesRead(
     sessionId: string,
-    managerId: string,
-    route: any[]
-  ): Promise<{ success: boolean; route?: any; error?: string }> {
-    return new Promise((resolve) => {
-      if (!this.socket) {
-        resolve({ success: false, error: 'Not connected to server' })
-        return
-      }
+    conversationId: string,
+    lastReadAt: number
+  ): Promise<EventResponse<'message:read'>> {
+    return socketConnection.request('message:read', { sessionId, conversationId, lastReadAt })
+  }
 
-      this.socket.emit(
-        'session:update-route',
-        { sessionId, points: route, managerId },
-        (response) => {
-          resolve(response)
-        }
-      )
-    })
+  listSessions(): Promise<EventResponse<'session:list'>> {
+    return socketConnection.request('session:list', {})
   }
 
-  sendMessage(
-    sessionId: string,
-    from: string,
-    to: string,
-    content: string,
-    type: 'direct' | 'broadcast' = 'broadcast'
-  ) {
-    if (this.socket) {
-      this.socket.emit('message:send', { sessionId, from, to, content, type })
-    }
+  listEndedSessions(): Promise<EventResponse<'session:list-ended'>> {
+    return socketConnection.request('session:list-ended', {})
   }
 
-  validateManagerSession(
-    sessionId: string,
-    managerId: string
-  ): Promise<{ success: boolean; session?: any; error?: string }> {
-    return new Promise((resolve) => {
-      if (!this.socket) {
-        resolve({ success: false, error: 'Not connected to server' })
-        return
-      }
+  getSessionReplay(sessionId: string): Promise<EventResponse<'session:replay'>> {
+    return socketConnection.request('session:replay', { sessionId })
+  }
 
-      this.socket.emit('session:validate-manager', { sessionId, managerId }, (response) => {
-        resolve(response)
-      })
-    })
+  validateManagerSession(sessionId: string): Promise<EventResponse<'session:validate-manager'>> {
+    return socketConnection.request('session:validate-manager', { sessionId })
   }
 
   rejoinSession(
     sessionId: string,
-    participantId: string
-  ): Promise<{ success: boolean; session?: any; error?: string }> {
-    return new Promise((resolve) => {
-      if (!this.socket) {
-        resolve({ success: false, error: 'Not connected to server' })
-        return
-      }
-
-      this.socket.emit('session:rejoin', { sessionId, participantId }, (response) => {
-        resolve(response)
-      })
-    })
+    participantToken: string
+  ): Promise<EventResponse<'session:rejoin'>> {
+    return socketConnection.request('session:rejoin', { sessionId, participantToken })
   }
 }
 
@@ -1,60 +1,132 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { computed, ref } from 'vue'
+import { apiRequest } from '@/services/api'
+import { websocketService } from '@/services/websocket'
+import { organizationService, type ManagerRole } from '@/services/organizationService'
+import { reportService } from '@/services/reportService'
 
-// In a real app, this would be handled by a backend
-const MANAGER_PASSWORD = 'RideManager2024'
-
-// Fallback UUID generator for better browser compatibility
-function generateUUID(): string {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID()
-  }
+interface ManagerAccount {
+  id: string
+  organizationId: string
+  username: string
+  name: string
+  role: ManagerRole
+}
 
-  // Fallback for browsers that don't support crypto.randomUUID
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
-    const r = (Math.random() * 16) | 0
-    const v = c === 'x' ? r : (r & 0x3) | 0x8
-    return v.toString(16)
-  })
+type LoginResponse = {
+  success: boolean
+  token?: string
+  manager?: ManagerAccount
+  error?: string
 }
 
 export const useAuthStore = defineStore('auth', () => {
   const isAuthenticated = ref(false)
   const managerId = ref<string | null>(null)
+  const managerName = ref<string | null>(null)
+  const organizationId = ref<string | null>(null)
+  const role = ref<ManagerRole | null>(null)
+  const token = ref<string | null>(null)
+
+  const isAdmin = computed(() => role.value === 'admin')
+
+  async function login(
+    username: string,
+    password: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const response = await apiRequest<LoginResponse>('/api/auth/login', {
+      method: 'POST',
+      body: { username, password },
+    })
+
+    return applyLoginResponse(response)
+  }
 
-  function login(password: string): boolean {
-    if (password === MANAGER_PASSWORD) {
+  // Create an account from an organization invite and log straight into it
+  async function register(
+    inviteToken: string,
+    username: string,
+    name: string,
+    password: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const response = await apiRequest<LoginResponse>('/api/auth/register', {
+      method: 'POST',
+      body: { inviteToken, username, name, password },
+    })
+
+    return applyLoginResponse(response)
+  }
+
+  function applyLoginResponse(response: LoginResponse): { success: boolean; error?: string } {
+    if (response.success && response.token && response.manager) {
       isAuthenticated.value = true
-      managerId.value = generateUUID()
+      managerId.value = response.manager.id
+      managerName.value = response.manager.name
+      organizationId.value = response.manager.organizationId
+      role.value = response.manager.role
+      token.value = response.token
       // Store in sessionStorage for persistence during session
-      sessionStorage.setItem('managerId', managerId.value)
-      sessionStorage.setItem('isAuthenticated', 'true')
-      return true
+      sessionStorage.setItem('managerId', response.manager.id)
+      sessionStorage.setItem('managerName', response.manager.name)
+      sessionStorage.setItem('organizationId', response.manager.organizationId)
+      sessionStorage.setItem('managerRole', response.manager.role)
+      sessionStorage.setItem('authToken', response.token)
+      // Reconnect the socket so the server binds the manager identity
+      websocketService.setAuthToken(response.token)
+      organizationService.setAuthToken(response.token)
+      reportService.setAuthToken(response.token)
+      return { success: true }
     }
-    return false
+
+    return { success: false, error: response.error || 'Login failed' }
   }
 
   function logout() {
+    // Revoke the token server-side; local state is cleared regardless of the outcome
+    if (token.value) {
+      apiRequest('/api/auth/logout', { method: 'POST', token: token.value })
+    }
+
     isAuthenticated.value = false
     managerId.value = null
+    managerName.value = null
+    organizationId.value = null
+    role.value = null
+    token.value = null
     sessionStorage.removeItem('managerId')
-    sessionStorage.removeItem('isAuthenticated')
+    sessionStorage.removeItem('managerName')
+    sessionStorage.removeItem('organizationId')
+    sessionStorage.removeItem('managerRole')
+    sessionStorage.removeItem('authToken')
+    websocketService.setAuthToken(null)
+    organizationService.setAuthToken(null)
+    reportService.setAuthToken(null)
   }
 
   function checkAuth() {
-    const storedAuth = sessionStorage.getItem('isAuthenticated')
+    const storedToken = sessionStorage.getItem('authToken')
     const storedManagerId = sessionStorage.getItem('managerId')
 
-    if (storedAuth === 'true' && storedManagerId) {
+    if (storedToken && storedManagerId) {
       isAuthenticated.value = true
       managerId.value = storedManagerId
+      managerName.value = sessionStorage.getItem('managerName')
+      organizationId.value = sessionStorage.getItem('organizationId')
+      role.value = sessionStorage.getItem('managerRole') as ManagerRole | null
+      token.value = storedToken
     }
   }
 
   return {
     isAuthenticated,
     managerId,
+    managerName,
+    organizationId,
+    role,
+    isAdmin,
+    token,
     login,
+    register,
     logout,
     checkAuth,
   }
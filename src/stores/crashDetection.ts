@@ -0,0 +1,157 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import {
+  CrashDetector,
+  DEFAULT_CRASH_THRESHOLDS,
+  type CrashThresholds,
+} from '@/utils/crashDetection'
+
+const STORAGE_KEY = 'ridemapper_crash_detection'
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Each deployment can tune detection through its VITE_CRASH_* build variables
+const thresholds: CrashThresholds = {
+  ...DEFAULT_CRASH_THRESHOLDS,
+  impactG: envNumber(import.meta.env.VITE_CRASH_IMPACT_G, DEFAULT_CRASH_THRESHOLDS.impactG),
+  stillnessMs: envNumber(
+    import.meta.env.VITE_CRASH_STILLNESS_MS,
+    DEFAULT_CRASH_THRESHOLDS.stillnessMs
+  ),
+  stillnessToleranceG: envNumber(
+    import.meta.env.VITE_CRASH_STILLNESS_TOLERANCE_G,
+    DEFAULT_CRASH_THRESHOLDS.stillnessToleranceG
+  ),
+}
+const COUNTDOWN_SECONDS = envNumber(import.meta.env.VITE_CRASH_COUNTDOWN_SECONDS, 30)
+
+// iOS only delivers motion events after the user grants access from a tap
+type MotionEventWithPermission = typeof DeviceMotionEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>
+}
+
+export const useCrashDetectionStore = defineStore('crashDetection', () => {
+  const isSupported = typeof window !== 'undefined' && 'DeviceMotionEvent' in window
+  // The rider's choice, remembered on this device
+  const isEnabled = ref(isSupported && localStorage.getItem(STORAGE_KEY) === 'on')
+  const countdown = ref<number | null>(null) // Seconds left before the alert is sent
+  const error = ref<string | null>(null)
+
+  const detector = new CrashDetector(thresholds)
+  let onCrash: (() => void) | null = null
+  let isListening = false
+  let countdownInterval: number | undefined
+
+  function handleMotion(event: DeviceMotionEvent) {
+    const acceleration = event.accelerationIncludingGravity
+    if (acceleration?.x == null || acceleration.y == null || acceleration.z == null) return
+
+    const crashed = detector.push({
+      timestamp: event.timeStamp,
+      x: acceleration.x,
+      y: acceleration.y,
+      z: acceleration.z,
+    })
+    if (crashed && countdown.value === null) {
+      startCountdown()
+    }
+  }
+
+  function startCountdown() {
+    countdown.value = COUNTDOWN_SECONDS
+    navigator.vibrate?.([500, 250, 500, 250, 500])
+    countdownInterval = window.setInterval(() => {
+      if (countdown.value === null) return
+      countdown.value -= 1
+      if (countdown.value <= 0) {
+        stopCountdown()
+        onCrash?.()
+      }
+    }, 1000)
+  }
+
+  function stopCountdown() {
+    clearInterval(countdownInterval)
+    countdownInterval = undefined
+    countdown.value = null
+  }
+
+  function listen() {
+    if (isListening || !isEnabled.value || !onCrash) return
+    detector.reset()
+    window.addEventListener('devicemotion', handleMotion)
+    isListening = true
+  }
+
+  function unlisten() {
+    window.removeEventListener('devicemotion', handleMotion)
+    isListening = false
+    stopCountdown()
+  }
+
+  // The map view owns the alert: it knows the rider's session and latest position
+  function start(handler: () => void) {
+    onCrash = handler
+    listen()
+  }
+
+  function stop() {
+    onCrash = null
+    unlisten()
+  }
+
+  // Must be called from a tap, for the iOS permission prompt
+  async function enable(): Promise<boolean> {
+    error.value = null
+    if (!isSupported) {
+      error.value = 'This device does not report motion'
+      return false
+    }
+
+    const motionEvent = DeviceMotionEvent as MotionEventWithPermission
+    if (motionEvent.requestPermission) {
+      try {
+        if ((await motionEvent.requestPermission()) !== 'granted') {
+          error.value = 'Motion access was denied'
+          return false
+        }
+      } catch (permissionError) {
+        console.error('Motion permission request failed:', permissionError)
+        error.value = 'Motion access was denied'
+        return false
+      }
+    }
+
+    isEnabled.value = true
+    localStorage.setItem(STORAGE_KEY, 'on')
+    listen()
+    return true
+  }
+
+  function disable() {
+    isEnabled.value = false
+    localStorage.removeItem(STORAGE_KEY)
+    unlisten()
+  }
+
+  // The rider is fine
+  function cancelCountdown() {
+    stopCountdown()
+    detector.reset()
+  }
+
+  return {
+    isSupported,
+    isEnabled,
+    countdown,
+    error,
+    start,
+    stop,
+    enable,
+    disable,
+    cancelCountdown,
+  }
+})
@@ -1,66 +1,231 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
-
-export interface Message {
-  id: string
-  from: string
-  to: string
-  content: string
-  timestamp: number
-  read: boolean
+import { ref, computed } from 'vue'
+import { websocketService } from '@/services/websocket'
+import {
+  BROADCAST_CONVERSATION,
+  type Message as ServerMessage,
+  type MessageReadState,
+} from '@protocol'
+
+export { BROADCAST_CONVERSATION }
+
+export interface Message extends ServerMessage {
+  delivered?: boolean // Set for messages sent from this device; false when the recipient was offline
 }
 
+const PAGE_SIZE = 50
+
 export const useMessagesStore = defineStore('messages', () => {
+  const sessionId = ref<string | null>(null)
+  const selfId = ref<string | null>(null)
+  // Threads keyed by conversation: BROADCAST_CONVERSATION, or the other participant's ID.
+  // Each thread is kept oldest first.
   const messages = ref<Map<string, Message[]>>(new Map())
   const unreadCount = ref<Map<string, number>>(new Map())
+  const hasMore = ref<Map<string, boolean>>(new Map())
+  // Timestamps of the last message read, by this participant per conversation and by
+  // each peer in their direct conversation with this participant
+  const lastRead = ref<Map<string, number>>(new Map())
+  const readByPeer = ref<Map<string, number>>(new Map())
+  const isLoading = ref(false)
+  // High-priority alerts received live and not yet acknowledged, oldest first
+  const urgentAlerts = ref<Message[]>([])
 
-  function sendMessage(from: string, to: string, content: string) {
-    const message: Message = {
-      id: crypto.randomUUID(),
-      from,
-      to,
-      content,
-      timestamp: Date.now(),
-      read: false
+  const totalUnread = computed(() => {
+    let total = 0
+    unreadCount.value.forEach((count) => {
+      total += count
+    })
+    return total
+  })
+
+  function conversationIdOf(message: ServerMessage): string {
+    if (message.type === 'broadcast') return BROADCAST_CONVERSATION
+    return message.fromId === selfId.value ? message.toId! : message.fromId
+  }
+
+  // Insert keeping the thread in order; returns false for a message already present,
+  // e.g. one that arrived live and again with the history
+  function addMessage(message: Message): boolean {
+    const conversationId = conversationIdOf(message)
+    const thread = messages.value.get(conversationId) || []
+    if (thread.some((existing) => existing.id === message.id)) return false
+
+    let index = thread.length
+    while (index > 0 && thread[index - 1].timestamp > message.timestamp) {
+      index--
     }
+    thread.splice(index, 0, message)
+    messages.value.set(conversationId, thread)
+    return true
+  }
+
+  function applyReadState(readState: MessageReadState) {
+    lastRead.value = new Map(Object.entries(readState.lastRead))
+    unreadCount.value = new Map(Object.entries(readState.unread))
+    readByPeer.value = new Map(Object.entries(readState.readByPeer))
+  }
 
-    // Store messages by participant ID
-    if (!messages.value.has(to)) {
-      messages.value.set(to, [])
+  // Load the latest messages and read positions for the session the participant is
+  // bound to. Called on joining and again after every reconnect, since messages and
+  // receipts sent while the connection was down were missed.
+  async function loadHistory(currentSessionId: string, participantId: string) {
+    if (sessionId.value !== currentSessionId || selfId.value !== participantId) {
+      clearMessages()
+      sessionId.value = currentSessionId
+      selfId.value = participantId
     }
-    messages.value.get(to)!.push(message)
 
-    // Update unread count
-    unreadCount.value.set(to, (unreadCount.value.get(to) || 0) + 1)
+    isLoading.value = true
+    try {
+      const response = await websocketService.getMessageHistory(currentSessionId, {
+        limit: PAGE_SIZE,
+      })
+      // The user may have left or switched sessions while the request was in flight
+      if (sessionId.value !== currentSessionId) return
+
+      if (!response.success || !response.messages) {
+        console.error('Failed to load message history:', response.error)
+        return
+      }
 
-    return message
+      response.messages.forEach((message) => addMessage(message))
+      // Older pages are fetched per thread; until then a thread may have more unless the
+      // whole history fitted in this page
+      messages.value.forEach((_, conversationId) => {
+        if (!hasMore.value.has(conversationId)) {
+          hasMore.value.set(conversationId, response.hasMore ?? false)
+        }
+      })
+      if (response.readState) {
+        applyReadState(response.readState)
+      }
+    } finally {
+      isLoading.value = false
+    }
   }
 
-  function getMessages(participantId: string): Message[] {
-    return messages.value.get(participantId) || []
+  async function loadOlder(conversationId: string) {
+    if (!sessionId.value || hasMore.value.get(conversationId) === false) return
+
+    const thread = messages.value.get(conversationId) || []
+    const requestedSessionId = sessionId.value
+    const response = await websocketService.getMessageHistory(requestedSessionId, {
+      conversationId,
+      before: thread[0]?.id,
+      limit: PAGE_SIZE,
+    })
+    if (sessionId.value !== requestedSessionId) return
+
+    if (response.success && response.messages) {
+      response.messages.forEach((message) => addMessage(message))
+      hasMore.value.set(conversationId, response.hasMore ?? false)
+    } else {
+      console.error('Failed to load older messages:', response.error)
+    }
   }
 
-  function markAsRead(participantId: string) {
-    const participantMessages = messages.value.get(participantId)
-    if (participantMessages) {
-      participantMessages.forEach(msg => {
-        msg.read = true
-      })
+  function recordSent(message: ServerMessage, delivered: boolean) {
+    addMessage({ ...message, delivered })
+  }
+
+  function receiveMessage(message: ServerMessage) {
+    if (!addMessage(message) || message.fromId === selfId.value) return
+
+    const conversationId = conversationIdOf(message)
+    unreadCount.value.set(conversationId, (unreadCount.value.get(conversationId) || 0) + 1)
+    if (message.priority === 'high') {
+      urgentAlerts.value.push(message)
+    }
+  }
+
+  // The rider acknowledged the alert on screen, which also reads its conversation
+  function acknowledgeAlert(messageId: string) {
+    const alert = urgentAlerts.value.find((message) => message.id === messageId)
+    urgentAlerts.value = urgentAlerts.value.filter((message) => message.id !== messageId)
+    if (alert) {
+      markAsRead(conversationIdOf(alert))
+    }
+  }
+
+  function getMessages(conversationId: string): Message[] {
+    return messages.value.get(conversationId) || []
+  }
+
+  // Whether the recipient of a direct message sent by this participant has read it
+  function isReadByRecipient(message: Message): boolean {
+    if (message.type !== 'direct' || message.fromId !== selfId.value) return false
+    return (readByPeer.value.get(message.toId!) ?? 0) >= message.timestamp
+  }
+
+  async function markAsRead(conversationId: string) {
+    const thread = messages.value.get(conversationId)
+    const latest = thread?.[thread.length - 1]
+    unreadCount.value.set(conversationId, 0)
+    if (
+      !sessionId.value ||
+      !latest ||
+      latest.timestamp <= (lastRead.value.get(conversationId) ?? 0)
+    ) {
+      return
+    }
+
+    lastRead.value.set(conversationId, latest.timestamp)
+    const response = await websocketService.markMessagesRead(
+      sessionId.value,
+      conversationId,
+      latest.timestamp
+    )
+    if (!response.success) {
+      console.warn('Failed to save read position:', response.error)
+    }
+  }
+
+  // A read position changed elsewhere: this participant read the conversation on another
+  // device, or a peer read a direct conversation with them
+  function applyReadEvent(data: { readerId: string; conversationId: string; lastReadAt: number }) {
+    if (data.readerId === selfId.value) {
+      lastRead.value.set(data.conversationId, data.lastReadAt)
+      const unread = getMessages(data.conversationId).filter(
+        (message) => message.fromId !== selfId.value && message.timestamp > data.lastReadAt
+      ).length
+      unreadCount.value.set(data.conversationId, unread)
+    } else if (data.conversationId === selfId.value) {
+      readByPeer.value.set(
+        data.readerId,
+        Math.max(readByPeer.value.get(data.readerId) ?? 0, data.lastReadAt)
+      )
     }
-    unreadCount.value.set(participantId, 0)
   }
 
   function clearMessages() {
+    sessionId.value = null
+    selfId.value = null
     messages.value.clear()
     unreadCount.value.clear()
+    hasMore.value.clear()
+    lastRead.value.clear()
+    readByPeer.value.clear()
+    urgentAlerts.value = []
   }
 
   return {
     messages,
     unreadCount,
-    sendMessage,
+    totalUnread,
+    hasMore,
+    isLoading,
+    urgentAlerts,
+    conversationIdOf,
+    loadHistory,
+    loadOlder,
+    recordSent,
+    receiveMessage,
+    acknowledgeAlert,
     getMessages,
+    isReadByRecipient,
     markAsRead,
-    clearMessages
+    applyReadEvent,
+    clearMessages,
   }
-}) 
\ No newline at end of file
+})
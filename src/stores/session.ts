@@ -1,64 +1,71 @@
 import { defineStore } from 'pinia'
 import { ref, computed, watch } from 'vue'
 import { websocketService } from '@/services/websocket'
-
-export interface Participant {
-  id: string
-  name: string
-  location?: {
-    lat: number
-    lng: number
-    timestamp: number
-  }
-  isOnline: boolean
-  isManager: boolean
-  joinedAt: number
-}
-
-export interface RoutePoint {
-  lat: number
-  lng: number
-  type: 'start' | 'end' | 'waypoint'
-}
-
-export interface Route {
-  id: string
-  name: string
-  description?: string
-  points: RoutePoint[]
-  distance?: number // Distance in meters
-  createdBy: string
-  createdAt: number
-  updatedAt: number
-  isTemplate: boolean
-}
-
-export interface Session {
-  id: string
-  pin: string
-  managerId: string
-  managerName: string
-  routeId?: string
-  route?: Route
-  participants: { [key: string]: Participant } // Changed from Map to object for network transmission
-  createdAt: number
-  updatedAt: number
-  isActive: boolean
-  endsAt?: number
+import { socketConnection, type AppSocket } from '@/services/socketConnection'
+import { useAuthStore } from '@/stores/auth'
+import { useMessagesStore } from '@/stores/messages'
+import { useSosStore } from '@/stores/sos'
+import { backgroundSyncService } from '@/services/backgroundSyncService'
+import type {
+  CheckpointArrival,
+  GroupSpread,
+  Participant,
+  RideRole,
+  RiderProgress,
+  Route,
+  RoutePoint,
+  SerializedSession,
+  SosAlert,
+} from '@protocol'
+
+export type {
+  CheckpointArrival,
+  GroupSpread,
+  Participant,
+  RideRole,
+  RiderProgress,
+  Route,
+  RoutePoint,
 }
+export type Session = SerializedSession
 
 export const useSessionStore = defineStore('session', () => {
+  const authStore = useAuthStore()
+  const messagesStore = useMessagesStore()
+  const sosStore = useSosStore()
   const currentSession = ref<Session | null>(null)
+  // Active sessions the logged-in manager owns or co-manages
+  const managerSessions = ref<Session[]>([])
   const isManager = ref(false)
   const currentParticipantId = ref<string | null>(null)
-  const isConnected = ref(false)
+  // Signed token proving the participant identity; managers authenticate with their login instead
+  const participantToken = ref<string | null>(null)
+  const connectionStatus = computed(() => socketConnection.state.status)
+  const isConnected = computed(() => connectionStatus.value === 'connected')
   const connectionError = ref<string | null>(null)
+  // How spread out the group is along the route; managers get it while a lead or sweep rides
+  const groupSpread = ref<GroupSpread | null>(null)
+  // Check-ins at the route's checkpoints and regroup points: everyone's for managers,
+  // the rider's own otherwise
+  const checkpointArrivals = ref<CheckpointArrival[]>([])
+  // The socket the event listeners are registered on; it survives reconnects
+  let listeningSocket: AppSocket | null = null
+  // Set while the session is being resumed after a reconnect
+  let isResuming = false
 
   const activeParticipants = computed(() => {
     if (!currentSession.value) return []
     return Object.values(currentSession.value.participants).filter((p) => p.isOnline)
   })
 
+  // Everyone in the session, online participants first
+  const sessionParticipants = computed(() => {
+    if (!currentSession.value) return []
+    return Object.values(currentSession.value.participants).sort(
+      (a, b) => Number(b.isOnline) - Number(a.isOnline) || a.name.localeCompare(b.name)
+    )
+  })
+
   // Session persistence
   const STORAGE_KEY = 'ridemapper_session'
 
@@ -68,6 +75,7 @@ export const useSessionStore = defineStore('session', () => {
         session: currentSession.value,
         isManager: isManager.value,
         participantId: currentParticipantId.value,
+        participantToken: participantToken.value,
         timestamp: Date.now(),
       }
       localStorage.setItem(STORAGE_KEY, JSON.stringify(sessionData))
@@ -79,6 +87,7 @@ export const useSessionStore = defineStore('session', () => {
     session: Session
     isManager: boolean
     participantId: string
+    participantToken: string | null
   } | null {
     try {
       const stored = localStorage.getItem(STORAGE_KEY)
@@ -129,10 +138,7 @@ export const useSessionStore = defineStore('session', () => {
       // For managers, try to reconnect to their session
       if (storedSession.isManager) {
         // Validate that session still exists by trying to create/rejoin
-        const response = await websocketService.validateManagerSession(
-          storedSession.session.id,
-          storedSession.participantId
-        )
+        const response = await websocketService.validateManagerSession(storedSession.session.id)
 
         if (response.success && response.session) {
           currentSession.value = response.session
@@ -143,17 +149,18 @@ export const useSessionStore = defineStore('session', () => {
           console.log('Manager session recovered successfully')
           return { success: true }
         }
-      } else {
-        // For participants, try to rejoin the session
+      } else if (storedSession.participantToken) {
+        // For participants, try to rejoin the session with their signed token
         const response = await websocketService.rejoinSession(
           storedSession.session.id,
-          storedSession.participantId
+          storedSession.participantToken
         )
 
         if (response.success && response.session) {
           currentSession.value = response.session
           isManager.value = false
           currentParticipantId.value = storedSession.participantId
+          participantToken.value = storedSession.participantToken
           setupEventListeners()
           saveSessionToStorage()
           console.log('Participant session recovered successfully')
@@ -196,23 +203,34 @@ export const useSessionStore = defineStore('session', () => {
   async function initialize() {
     try {
       connectionError.value = null
+      websocketService.setAuthToken(authStore.token)
       await websocketService.connect()
-      isConnected.value = true
-
-      // Set up event listeners
-      setupEventListeners()
-
       console.log('WebSocket connection established')
     } catch (error) {
       console.error('Failed to connect to WebSocket server:', error)
-      connectionError.value = 'Failed to connect to server'
-      isConnected.value = false
+
+      const code = (error as { data?: { code?: string } }).data?.code
+      if (code === 'UPGRADE_REQUIRED') {
+        // The server explains whether the app or the server needs updating
+        connectionError.value = (error as Error).message
+      } else if (code === 'UNAUTHENTICATED') {
+        // A rejected handshake means the stored manager token is no longer valid
+        authStore.logout()
+        connectionError.value = 'Your login has expired. Please log in again.'
+      } else {
+        connectionError.value = 'Failed to connect to server'
+      }
+    } finally {
+      // Also after a failed first attempt: the socket keeps retrying in the background
+      // and the listeners must be in place when it gets through
+      setupEventListeners()
     }
   }
 
   function setupEventListeners() {
     const socket = websocketService.getSocket()
-    if (!socket) return
+    if (!socket || socket === listeningSocket) return
+    listeningSocket = socket
 
     // Session events
     socket.on('session:joined', (data) => {
@@ -232,21 +250,14 @@ export const useSessionStore = defineStore('session', () => {
     socket.on('session:ended', (data) => {
       console.log('Session ended:', data)
       if (currentSession.value && data.sessionId === currentSession.value.id) {
-        const wasManager = isManager.value
-
-        currentSession.value = null
-        currentParticipantId.value = null
-        isManager.value = false
-        clearSessionFromStorage()
+        closeEndedSession()
+      }
+    })
 
-        // Redirect based on role
-        if (wasManager) {
-          // Redirect managers to dashboard
-          window.location.href = '/manager-dashboard'
-        } else {
-          // Redirect participants to homepage
-          window.location.href = '/'
-        }
+    // Presence changes: participants dropping offline or coming back
+    socket.on('session:participant-update', (data) => {
+      if (currentSession.value && data.sessionId === currentSession.value.id) {
+        currentSession.value.participants[data.participant.id] = data.participant
       }
     })
 
@@ -260,31 +271,221 @@ export const useSessionStore = defineStore('session', () => {
       }
     })
 
+    // Route adherence. The rider's own status drives a prompt in the map view;
+    // managers are also notified outside the app.
+    socket.on('rider:off-route', (data) => {
+      const participant = currentSession.value?.participants[data.participantId]
+      if (!participant || data.sessionId !== currentSession.value?.id) return
+
+      participant.offRoute = data.offRoute
+      if (isManager.value && data.participantId !== currentParticipantId.value) {
+        backgroundSyncService.showNotification({
+          title: '🧭 Rider off route',
+          body: `${participant.name} is ${data.offRoute.distance} m from the route`,
+          tag: `off-route-${data.participantId}`,
+          data: { sessionId: data.sessionId, participantId: data.participantId },
+        })
+      }
+    })
+    socket.on('rider:back-on-route', (data) => {
+      const participant = currentSession.value?.participants[data.participantId]
+      if (participant && data.sessionId === currentSession.value?.id) {
+        participant.offRoute = undefined
+      }
+    })
+
+    socket.on('rider:progress', (data) => {
+      const participant = currentSession.value?.participants[data.participantId]
+      if (participant && data.sessionId === currentSession.value?.id) {
+        participant.progress = data.progress
+      }
+    })
+
+    socket.on('group:spread', (spread) => {
+      if (!currentSession.value || spread.sessionId !== currentSession.value.id) return
+
+      if (spread.exceeded && !groupSpread.value?.exceeded) {
+        backgroundSyncService.showNotification({
+          title: '↔️ Group spread out',
+          body: `The gap in the group is over ${spread.maxGap} m`,
+          tag: `group-spread-${spread.sessionId}`,
+          data: { sessionId: spread.sessionId },
+        })
+      }
+      groupSpread.value = spread
+    })
+
+    socket.on('checkpoint:arrived', (arrival) => {
+      if (!currentSession.value || arrival.sessionId !== currentSession.value.id) return
+
+      const isKnown = checkpointArrivals.value.some(
+        (known) =>
+          known.routeId === arrival.routeId &&
+          known.pointIndex === arrival.pointIndex &&
+          known.participantId === arrival.participantId
+      )
+      if (!isKnown) {
+        checkpointArrivals.value.push(arrival)
+      }
+    })
+
     // Route events
     socket.on('route:updated', (data) => {
       if (currentSession.value && data.sessionId === currentSession.value.id) {
         currentSession.value.route = data.route
       }
     })
+
+    // Message events
+    socket.on('message:received', (message) => {
+      if (currentSession.value && message.sessionId === currentSession.value.id) {
+        messagesStore.receiveMessage(message)
+
+        // High-priority alerts also reach riders whose screen is off or who are in another app
+        if (message.priority === 'high' && message.fromId !== currentParticipantId.value) {
+          const sender = currentSession.value.participants[message.fromId]?.name || 'Ride leader'
+          backgroundSyncService.showNotification({
+            title: `⚠️ ${sender}`,
+            body: message.content,
+            tag: `alert-${message.id}`,
+            requireInteraction: true,
+            data: { sessionId: message.sessionId, messageId: message.id },
+          })
+        }
+      }
+    })
+
+    socket.on('message:read', (data) => {
+      if (currentSession.value && data.sessionId === currentSession.value.id) {
+        messagesStore.applyReadEvent(data)
+      }
+    })
+
+    // SOS events. Managers get them for their sessions wherever they are in the app;
+    // riders only get the acknowledgement of their own alert.
+    const notifySos = (alert: SosAlert, title: string) => {
+      sosStore.showAlert(alert)
+      backgroundSyncService.showNotification({
+        title,
+        body:
+          alert.trigger === 'crash'
+            ? `${alert.participantName} may have crashed (session ${alert.sessionPin})`
+            : `${alert.participantName} needs help (session ${alert.sessionPin})`,
+        tag: `sos-${alert.id}`,
+        requireInteraction: true,
+        data: { sessionId: alert.sessionId, sosId: alert.id },
+      })
+    }
+    socket.on('sos:raised', (alert) => {
+      const isUpdate = sosStore.openAlerts.some((open) => open.id === alert.id)
+      if (isUpdate) {
+        sosStore.showAlert(alert)
+      } else {
+        notifySos(alert, '🆘 SOS')
+      }
+    })
+    socket.on('sos:escalated', (alert) => {
+      notifySos(alert, '🆘 SOS not yet answered')
+    })
+    socket.on('sos:acknowledged', (alert) => {
+      sosStore.handleAcknowledged(alert)
+    })
+
+    // The server forgets which room a socket was in when the connection drops, and any
+    // updates sent meanwhile were missed, so every reconnect resumes the session
+    socket.on('connect', () => {
+      resumeSession()
+      if (authStore.isAuthenticated) {
+        sosStore.loadAlerts()
+      }
+    })
+    if (socket.connected && authStore.isAuthenticated) {
+      sosStore.loadAlerts()
+    }
+
+    // Rejected events, e.g. throttled location updates or messages
+    socket.on('error', (data) => {
+      if (data.code === 'RATE_LIMITED') {
+        console.warn(`Server throttled ${data.event}, retry in ${data.retryAfterMs}ms`)
+      } else {
+        console.warn(`Server rejected ${data.event || 'request'}:`, data.code, data.message)
+      }
+    })
   }
 
-  async function createSession(
-    managerName: string,
-    routeId?: string
-  ): Promise<{ success: boolean; error?: string; joinedExisting?: boolean }> {
+  // Rejoin the current session on a fresh connection and replace the local state,
+  // participants and route included, with the server's
+  async function resumeSession() {
+    if (!currentSession.value || isResuming) return
+
+    const sessionId = currentSession.value.id
+    isResuming = true
+    try {
+      let response: { success: boolean; session?: Session; error?: string; code?: string }
+      if (isManager.value) {
+        response = await websocketService.validateManagerSession(sessionId)
+      } else if (participantToken.value) {
+        response = await websocketService.rejoinSession(sessionId, participantToken.value)
+      } else {
+        return
+      }
+
+      // The user may have left or switched sessions while the request was in flight
+      if (currentSession.value?.id !== sessionId) return
+
+      if (response.success && response.session) {
+        currentSession.value = response.session
+        saveSessionToStorage()
+        if (currentParticipantId.value) {
+          messagesStore.loadHistory(sessionId, currentParticipantId.value)
+        }
+        loadCheckpointArrivals()
+        console.log('Session resumed after reconnect')
+      } else if (response.code === 'NOT_FOUND' || response.code === 'UNAUTHENTICATED') {
+        // The session ended while the connection was down
+        console.log('Session is gone after reconnect:', response.error)
+        closeEndedSession()
+      } else {
+        // Transient failures are retried on the next reconnect
+        console.warn('Failed to resume session after reconnect:', response.error)
+      }
+    } finally {
+      isResuming = false
+    }
+  }
+
+  // Drop an ended session and send the user back to where they started
+  function closeEndedSession() {
+    const wasManager = isManager.value
+
+    currentSession.value = null
+    currentParticipantId.value = null
+    participantToken.value = null
+    isManager.value = false
+    clearSessionFromStorage()
+
+    // Redirect based on role
+    if (wasManager) {
+      // Redirect managers to dashboard
+      window.location.href = '/manager-dashboard'
+    } else {
+      // Redirect participants to homepage
+      window.location.href = '/'
+    }
+  }
+
+  async function createSession(routeId?: string): Promise<{ success: boolean; error?: string }> {
     if (!isConnected.value) {
       await initialize()
     }
 
     try {
-      const response = await websocketService.createSession(managerName, routeId)
+      const response = await websocketService.createSession(routeId)
 
       if (response.success && response.session) {
-        console.log('Session created/joined:', response.session)
+        console.log('Created new session:', response.session)
         console.log('Route data in session:', response.session.route)
 
-        const joinedExisting = response.session.managerName !== managerName
-
         currentSession.value = response.session
         isManager.value = true
         currentParticipantId.value = response.session.managerId
@@ -292,13 +493,7 @@ export const useSessionStore = defineStore('session', () => {
         // Save to localStorage
         saveSessionToStorage()
 
-        if (joinedExisting) {
-          console.log('Joined existing session:', response.session)
-        } else {
-          console.log('Created new session:', response.session)
-        }
-
-        return { success: true, joinedExisting }
+        return { success: true }
       } else {
         return { success: false, error: response.error || 'Failed to create session' }
       }
@@ -308,12 +503,48 @@ export const useSessionStore = defineStore('session', () => {
     }
   }
 
+  async function loadManagerSessions(): Promise<{ success: boolean; error?: string }> {
+    if (!isConnected.value) {
+      await initialize()
+    }
+
+    const response = await websocketService.listSessions()
+    if (response.success && response.sessions) {
+      managerSessions.value = response.sessions
+      return { success: true }
+    }
+    return { success: false, error: response.error || 'Failed to load sessions' }
+  }
+
+  // Make another of the manager's active sessions the current one. The server moves
+  // the socket to that session's room, so updates for the previous one stop arriving.
+  async function switchSession(sessionId: string): Promise<{ success: boolean; error?: string }> {
+    if (!isConnected.value) {
+      await initialize()
+    }
+
+    const response = await websocketService.validateManagerSession(sessionId)
+    if (response.success && response.session) {
+      currentSession.value = response.session
+      isManager.value = true
+      currentParticipantId.value = authStore.managerId
+      participantToken.value = null
+      saveSessionToStorage()
+      console.log('Switched to session:', response.session.pin)
+      return { success: true }
+    }
+    return { success: false, error: response.error || 'Failed to switch session' }
+  }
+
   async function joinSession(
     pin: string,
     participantName: string
   ): Promise<{ success: boolean; error?: string }> {
     if (!isConnected.value) {
       await initialize()
+      if (!isConnected.value) {
+        return { success: false, error: connectionError.value || 'Failed to connect to server' }
+      }
     }
 
     try {
@@ -323,6 +554,7 @@ export const useSessionStore = defineStore('session', () => {
         currentSession.value = response.session
         isManager.value = false
         currentParticipantId.value = response.participantId
+        participantToken.value = response.participantToken || null
 
         // Save to localStorage
         saveSessionToStorage()
@@ -344,21 +576,19 @@ export const useSessionStore = defineStore('session', () => {
     }
   }
 
-  async function joinAsManager(
-    pin: string,
-    managerName: string
-  ): Promise<{ success: boolean; error?: string }> {
+  async function joinAsManager(pin: string): Promise<{ success: boolean; error?: string }> {
     if (!isConnected.value) {
       await initialize()
     }
 
     try {
-      const response = await websocketService.joinAsManager(pin, managerName, crypto.randomUUID())
+      const response = await websocketService.joinAsManager(pin)
 
       if (response.success && response.session && response.participantId) {
         currentSession.value = response.session
         isManager.value = true
         currentParticipantId.value = response.participantId
+        participantToken.value = null
 
         // Save to localStorage
         saveSessionToStorage()
@@ -377,9 +607,10 @@ export const useSessionStore = defineStore('session', () => {
 
   function leaveSession() {
     if (currentSession.value && currentParticipantId.value) {
-      websocketService.leaveSession(currentSession.value.id, currentParticipantId.value)
+      websocketService.leaveSession(currentSession.value.id)
       currentSession.value = null
       currentParticipantId.value = null
+      participantToken.value = null
       isManager.value = false
       clearSessionFromStorage()
     }
@@ -387,19 +618,29 @@ export const useSessionStore = defineStore('session', () => {
 
   function endSession() {
     if (currentSession.value && isManager.value && currentParticipantId.value) {
-      websocketService.endSession(currentSession.value.id, currentParticipantId.value)
+      const endedSessionId = currentSession.value.id
+      websocketService.endSession(endedSessionId)
+      managerSessions.value = managerSessions.value.filter((s) => s.id !== endedSessionId)
       currentSession.value = null
       currentParticipantId.value = null
+      participantToken.value = null
       isManager.value = false
       clearSessionFromStorage()
     }
   }
 
-  function updateParticipantLocation(lat: number, lng: number) {
+  // Accuracy and speed are kept with the position in the session's history
+  function updateParticipantLocation(
+    lat: number,
+    lng: number,
+    reading: { accuracy?: number; speed?: number } = {}
+  ) {
     if (currentSession.value && currentParticipantId.value) {
-      websocketService.updateLocation(currentSession.value.id, currentParticipantId.value, {
+      websocketService.updateLocation(currentSession.value.id, {
         lat,
         lng,
+        timestamp: Date.now(),
+        ...reading,
       })
     }
   }
@@ -407,11 +648,7 @@ export const useSessionStore = defineStore('session', () => {
   async function updateRoute(route: RoutePoint[]) {
     if (currentSession.value && isManager.value && currentParticipantId.value) {
       try {
-        const response = await websocketService.updateRoute(
-          currentSession.value.id,
-          currentParticipantId.value,
-          route
-        )
+        const response = await websocketService.updateRoute(currentSession.value.id, route)
 
         if (response.success && response.route) {
           // Update local session with the complete route object
@@ -426,15 +663,116 @@ export const useSessionStore = defineStore('session', () => {
     }
   }
 
+  // Without a recipient the message goes to everyone in the session
+  async function sendMessage(content: string, toId?: string) {
+    if (!currentSession.value || !currentParticipantId.value) {
+      return { success: false, error: 'Not in a session' }
+    }
+
+    try {
+      const response = await websocketService.sendMessage(currentSession.value.id, content, toId)
+      if (response.success && response.message) {
+        messagesStore.recordSent(response.message, response.delivered ?? true)
+        return { success: true, delivered: response.delivered ?? true }
+      }
+      return { success: false, error: response.error || 'Failed to send message' }
+    } catch (error) {
+      console.error('Error sending message:', error)
+      return { success: false, error: 'Failed to send message' }
+    }
+  }
+
+  // One-tap quick alert; without a recipient it goes to everyone in the session
+  async function sendAlert(alertId: string, toId?: string) {
+    if (!currentSession.value || !currentParticipantId.value) {
+      return { success: false, error: 'Not in a session' }
+    }
+
+    try {
+      const response = await websocketService.sendAlert(currentSession.value.id, alertId, toId)
+      if (response.success && response.message) {
+        messagesStore.recordSent(response.message, response.delivered ?? true)
+        return { success: true, delivered: response.delivered ?? true }
+      }
+      return { success: false, error: response.error || 'Failed to send alert' }
+    } catch (error) {
+      console.error('Error sending alert:', error)
+      return { success: false, error: 'Failed to send alert' }
+    }
+  }
+
+  // Lead and sweep are held by one participant each; null clears the participant's role
+  async function setParticipantRole(participantId: string, role: RideRole | null) {
+    if (!currentSession.value) {
+      return { success: false, error: 'Not in a session' }
+    }
+
+    try {
+      const response = await websocketService.setParticipantRole(
+        currentSession.value.id,
+        participantId,
+        role
+      )
+      return response.success
+        ? { success: true }
+        : { success: false, error: response.error || 'Failed to set role' }
+    } catch (error) {
+      console.error('Error setting participant role:', error)
+      return { success: false, error: 'Failed to set role' }
+    }
+  }
+
+  // Managers load the check-ins recorded so far; riders only hear about their own
+  async function loadCheckpointArrivals() {
+    const sessionId = currentSession.value?.id
+    if (!sessionId || !isManager.value) return
+
+    try {
+      const response = await websocketService.listCheckpointArrivals(sessionId)
+      if (response.success && response.arrivals && currentSession.value?.id === sessionId) {
+        checkpointArrivals.value = response.arrivals
+      } else if (!response.success) {
+        console.error('Failed to load check-ins:', response.error)
+      }
+    } catch (error) {
+      console.error('Error loading check-ins:', error)
+    }
+  }
+
   function disconnect() {
     websocketService.disconnect()
-    isConnected.value = false
+    listeningSocket = null
     currentSession.value = null
     currentParticipantId.value = null
+    participantToken.value = null
     isManager.value = false
     clearSessionFromStorage()
   }
 
+  // Conversations, the group's spread and check-ins belong to one session and participant;
+  // reload them whenever either changes
+  watch([() => currentSession.value?.id, currentParticipantId], ([sessionId, participantId]) => {
+    groupSpread.value = null
+    checkpointArrivals.value = []
+    if (sessionId && participantId) {
+      messagesStore.loadHistory(sessionId, participantId)
+      loadCheckpointArrivals()
+    } else {
+      messagesStore.clearMessages()
+      sosStore.dismissOwnAlert()
+    }
+  })
+
+  // Open SOS alerts are only shown to logged-in managers
+  watch(
+    () => authStore.isAuthenticated,
+    (isAuthenticated) => {
+      if (!isAuthenticated) {
+        sosStore.clear()
+      }
+    }
+  )
+
   // Auto-save session data when it changes
   watch(
     [currentSession, isManager, currentParticipantId],
@@ -448,19 +786,30 @@ export const useSessionStore = defineStore('session', () => {
 
   return {
     currentSession,
+    managerSessions,
     isManager,
     currentParticipantId,
+    participantToken,
     activeParticipants,
+    sessionParticipants,
     isConnected,
+    connectionStatus,
     connectionError,
+    groupSpread,
+    checkpointArrivals,
     initialize,
     createSession,
+    loadManagerSessions,
+    switchSession,
     joinSession,
     joinAsManager,
     leaveSession,
     endSession,
     updateParticipantLocation,
     updateRoute,
+    sendMessage,
+    sendAlert,
+    setParticipantRole,
     disconnect,
     recoverSession,
     saveSessionToStorage,
@@ -0,0 +1,87 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { websocketService } from '@/services/websocket'
+import type { Location, SosAlert, SosTrigger } from '@protocol'
+
+export type { SosAlert }
+
+export const useSosStore = defineStore('sos', () => {
+  // Open alerts a manager must see: those of sessions they run and escalated ones
+  const openAlerts = ref<SosAlert[]>([])
+  // The rider's own alert. It stays after acknowledgement to show who is responding.
+  const ownAlert = ref<SosAlert | null>(null)
+  const isRaising = ref(false)
+
+  function showAlert(alert: SosAlert) {
+    const index = openAlerts.value.findIndex((open) => open.id === alert.id)
+    if (index === -1) {
+      openAlerts.value.push(alert)
+    } else {
+      openAlerts.value[index] = alert
+    }
+  }
+
+  function handleAcknowledged(alert: SosAlert) {
+    openAlerts.value = openAlerts.value.filter((open) => open.id !== alert.id)
+    if (ownAlert.value?.id === alert.id) {
+      ownAlert.value = alert
+    }
+  }
+
+  // Managers reload the open alerts on every (re)connect, as escalations and
+  // acknowledgements may have been missed meanwhile
+  async function loadAlerts() {
+    const response = await websocketService.listSosAlerts()
+    if (response.success && response.alerts) {
+      openAlerts.value = response.alerts
+    } else {
+      console.error('Failed to load SOS alerts:', response.error)
+    }
+  }
+
+  // Also used to send the rider's newer position while their alert is open
+  async function raise(sessionId: string, location: Location, trigger: SosTrigger = 'manual') {
+    isRaising.value = true
+    try {
+      const response = await websocketService.raiseSos(sessionId, location, trigger)
+      if (response.success && response.sos) {
+        ownAlert.value = response.sos
+        return { success: true }
+      }
+      return { success: false, error: response.error || 'Failed to send SOS' }
+    } finally {
+      isRaising.value = false
+    }
+  }
+
+  async function acknowledge(sosId: string) {
+    const response = await websocketService.acknowledgeSos(sosId)
+    if (response.success && response.sos) {
+      handleAcknowledged(response.sos)
+      return { success: true }
+    }
+    return { success: false, error: response.error || 'Failed to acknowledge SOS' }
+  }
+
+  function dismissOwnAlert() {
+    ownAlert.value = null
+  }
+
+  function clear() {
+    openAlerts.value = []
+    ownAlert.value = null
+  }
+
+  return {
+    openAlerts,
+    ownAlert,
+    isRaising,
+    showAlert,
+    handleAcknowledged,
+    loadAlerts,
+    raise,
+    acknowledge,
+    dismissOwnAlert,
+    clear,
+  }
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_CRASH_THRESHOLDS,
+  detectCrashes,
+  type CrashThresholds,
+  type MotionSample,
+} from '../crashDetection'
+import crashThenStill from './fixtures/motion/crash-then-still.json'
+import gapBreaksStillness from './fixtures/motion/gap-breaks-stillness.json'
+import hardBraking from './fixtures/motion/hard-braking.json'
+import potholeThenStop from './fixtures/motion/pothole-then-stop.json'
+import riderGetsUp from './fixtures/motion/rider-gets-up.json'
+
+// Fixtures are 10 Hz accelerometer traces, each sample [timestamp ms, x, y, z] in m/s²
+// including gravity, as DeviceMotionEvent reports them
+function samplesOf(trace: { samples: number[][] }): MotionSample[] {
+  return trace.samples.map(([timestamp, x, y, z]) => ({ timestamp, x, y, z }))
+}
+
+describe('detectCrashes', () => {
+  it('reports an impact followed by the phone lying still', () => {
+    const crashes = detectCrashes(samplesOf(crashThenStill))
+
+    expect(crashes).toHaveLength(1)
+    // The impact is at 5 s: settling plus the stillness period must pass before the
+    // report, and the stillness window must not have run out
+    const { settleMs, stillnessMs, stillnessWindowMs } = DEFAULT_CRASH_THRESHOLDS
+    expect(crashes[0]).toBeGreaterThanOrEqual(5000 + settleMs + stillnessMs)
+    expect(crashes[0]).toBeLessThanOrEqual(5300 + settleMs + stillnessWindowMs)
+  })
+
+  it('ignores a pothole below the impact threshold', () => {
+    expect(detectCrashes(samplesOf(potholeThenStop))).toEqual([])
+  })
+
+  it('ignores hard braking', () => {
+    expect(detectCrashes(samplesOf(hardBraking))).toEqual([])
+  })
+
+  it('does not count stillness across a gap in the readings', () => {
+    expect(detectCrashes(samplesOf(gapBreaksStillness))).toEqual([])
+  })
+
+  it('does not report a rider who moves the phone again within the window', () => {
+    expect(detectCrashes(samplesOf(riderGetsUp))).toEqual([])
+  })
+
+  it('applies custom thresholds', () => {
+    const sensitive: CrashThresholds = { ...DEFAULT_CRASH_THRESHOLDS, impactG: 3 }
+    expect(detectCrashes(samplesOf(potholeThenStop), sensitive)).toHaveLength(1)
+
+    const patient: CrashThresholds = { ...DEFAULT_CRASH_THRESHOLDS, stillnessMs: 20000 }
+    expect(detectCrashes(samplesOf(crashThenStill), patient)).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+// Crash detection from device motion: a sharp impact followed by the phone lying still.
+// Pure logic with no browser APIs, so it can be replayed against recorded motion traces.
+
+const STANDARD_GRAVITY = 9.80665 // m/s²
+
+// One accelerometer reading, including gravity, as DeviceMotionEvent reports it
+export interface MotionSample {
+  timestamp: number // ms
+  x: number // m/s²
+  y: number
+  z: number
+}
+
+export interface CrashThresholds {
+  impactG: number // Total acceleration that counts as an impact
+  settleMs: number // Tumbling after the impact that is ignored
+  stillnessToleranceG: number // How far from 1 g a reading may be while lying still
+  stillnessMs: number // How long the phone must stay still to report a crash
+  stillnessWindowMs: number // After the impact, how long stillness is waited for
+  maxSampleGapMs: number // A longer gap between readings breaks a stillness period
+}
+
+// Tuned for a phone on a handlebar mount or in a pocket: hard braking and potholes stay
+// under 4 g, and a rider who is fine moves the phone again within a few seconds
+export const DEFAULT_CRASH_THRESHOLDS: CrashThresholds = {
+  impactG: 4,
+  settleMs: 1000,
+  stillnessToleranceG: 0.3,
+  stillnessMs: 5000,
+  stillnessWindowMs: 15000,
+  maxSampleGapMs: 1000,
+}
+
+export function accelerationInG(sample: MotionSample): number {
+  return Math.sqrt(sample.x ** 2 + sample.y ** 2 + sample.z ** 2) / STANDARD_GRAVITY
+}
+
+// Feed samples in time order; push() returns true once for each detected crash
+export class CrashDetector {
+  private impactAt: number | null = null
+  private stillSince: number | null = null
+  private lastSampleAt: number | null = null
+
+  constructor(private thresholds: CrashThresholds = DEFAULT_CRASH_THRESHOLDS) {}
+
+  push(sample: MotionSample): boolean {
+    const g = accelerationInG(sample)
+    const previousSampleAt = this.lastSampleAt
+    this.lastSampleAt = sample.timestamp
+
+    // A new impact restarts the wait, as the rider may still be tumbling
+    if (g >= this.thresholds.impactG) {
+      this.impactAt = sample.timestamp
+      this.stillSince = null
+      return false
+    }
+
+    if (this.impactAt === null) {
+      return false
+    }
+
+    const sinceImpact = sample.timestamp - this.impactAt
+    if (sinceImpact < this.thresholds.settleMs) {
+      return false
+    }
+    if (sinceImpact > this.thresholds.settleMs + this.thresholds.stillnessWindowMs) {
+      // The phone kept moving: the rider got up or it was a bump
+      this.reset()
+      return false
+    }
+
+    const isStill = Math.abs(g - 1) <= this.thresholds.stillnessToleranceG
+    const hasGap =
+      previousSampleAt !== null &&
+      sample.timestamp - previousSampleAt > this.thresholds.maxSampleGapMs
+    if (!isStill || hasGap) {
+      this.stillSince = isStill ? sample.timestamp : null
+      return false
+    }
+
+    this.stillSince ??= sample.timestamp
+    if (sample.timestamp - this.stillSince >= this.thresholds.stillnessMs) {
+      this.reset()
+      return true
+    }
+    return false
+  }
+
+  reset(): void {
+    this.impactAt = null
+    this.stillSince = null
+  }
+}
+
+// Replay a recorded trace; returns the timestamps at which crashes were reported
+export function detectCrashes(
+  samples: MotionSample[],
+  thresholds: CrashThresholds = DEFAULT_CRASH_THRESHOLDS
+): number[] {
+  const detector = new CrashDetector(thresholds)
+  return samples.filter((sample) => detector.push(sample)).map((sample) => sample.timestamp)
+}
@@ -0,0 +1,50 @@
+import type { AlertPriority } from '@protocol'
+
+// Display helpers shared by the views
+
+// "just now", "5 min ago", "2 h ago"
+export function formatTimeAgo(timestamp: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  return `${Math.floor(minutes / 60)} h ago`
+}
+
+// "14:05", in the user's locale
+export function formatClockTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+// "850 m", "1.4 km"
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`
+}
+
+// "40 min", "1 h 25 min"
+export function formatDuration(milliseconds: number): string {
+  const minutes = Math.round(milliseconds / 60000)
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
+
+// "18 km/h", from meters per second
+export function formatSpeed(metersPerSecond: number): string {
+  return `${Math.round(metersPerSecond * 3.6)} km/h`
+}
+
+// A steady color per participant, so crossing trails and markers can be told apart
+export function participantColor(participantId: string): string {
+  let hash = 0
+  for (const char of participantId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0
+  }
+  return `hsl(${Math.abs(hash) % 360}, 70%, 45%)`
+}
+
+// Vuetify color and icon for a quick alert's priority
+export function alertPriorityColor(priority: AlertPriority): string {
+  return { low: 'info', normal: 'warning', high: 'error' }[priority]
+}
+
+export function alertPriorityIcon(priority: AlertPriority): string {
+  return { low: 'mdi-information', normal: 'mdi-alert', high: 'mdi-alert-octagon' }[priority]
+}
@@ -95,6 +95,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),
+      // Socket protocol types and version, shared with the server
+      '@protocol': fileURLToPath(new URL('./server/src/protocol.ts', import.meta.url)),
     },
   },
   // For Heroku deployment
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url'
+import { mergeConfig, defineConfig, configDefaults } from 'vitest/config'
+import viteConfig from './vite.config'
+
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      exclude: [...configDefaults.exclude, 'server/**'],
+      root: fileURLToPath(new URL('./', import.meta.url)),
+    },
+  })
+)